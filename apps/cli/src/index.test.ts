@@ -3,7 +3,7 @@ import os from "node:os";
 import path from "node:path";
 
 import { SqliteMemoryStore } from "@fusy/memory";
-import { afterEach, describe, expect, it } from "vitest";
+import { afterEach, describe, expect, it, vi } from "vitest";
 
 import { executeCli } from "./index.js";
 
@@ -20,6 +20,7 @@ const useTempProject = async (): Promise<string> => {
 };
 
 afterEach(async () => {
+  vi.unstubAllEnvs();
   const prev = cwdStack.pop();
   if (prev) {
     process.chdir(prev);
@@ -48,6 +49,23 @@ describe("cli integration", () => {
     expect(session?.intent).toBe("fix auth flow");
   });
 
+  it("starts pairing with lexical ranking when the embedding provider cannot be created", async () => {
+    const temp = await useTempProject();
+    vi.stubEnv("GEMINI_API_KEY", "");
+    vi.stubEnv("FUSY_OPENAI_EMBEDDING_MODEL", "nomic-embed-text");
+    vi.stubEnv("FUSY_PROVIDER_PLUGINS", "./missing-plugin.mjs");
+
+    await expect(executeCli(["pair", "--session", "s5", "fix", "auth"]))
+      .resolves
+      .toBe(0);
+
+    const memory = new SqliteMemoryStore({ dbPath: path.join(temp, ".fusy", "memory.sqlite") });
+    const context = memory.listProjectMemory(temp).find((record) => record.key === "session:s5:context");
+    memory.close();
+
+    expect(context).toBeDefined();
+  });
+
   it("parses run session flag and keeps only positional command", async () => {
     const temp = await useTempProject();
 
@@ -80,6 +98,40 @@ describe("cli integration", () => {
     expect(run).toContain('"success":false');
   });
 
+  it("cancels a running command and records the session as paused", async () => {
+    const temp = await useTempProject();
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    await expect(executeCli(["run", "--session", "s3", "sleep", "5"], controller.signal))
+      .resolves
+      .toBe(130);
+
+    const memory = new SqliteMemoryStore({ dbPath: path.join(temp, ".fusy", "memory.sqlite") });
+    const session = memory.getSession("s3");
+    memory.close();
+
+    expect(session?.status).toBe("paused");
+    expect(session?.summary).toBe("Command cancelled: sleep 5");
+  });
+
+  it("stops pairing when cancelled and records the session as paused", async () => {
+    const temp = await useTempProject();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(executeCli(["pair", "--session", "s4", "fix", "auth"], controller.signal))
+      .resolves
+      .toBe(130);
+
+    const memory = new SqliteMemoryStore({ dbPath: path.join(temp, ".fusy", "memory.sqlite") });
+    const session = memory.getSession("s4");
+    memory.close();
+
+    expect(session?.status).toBe("paused");
+    expect(session?.summary).toBe("Pairing cancelled");
+  });
+
   it("reports missing run session value with a user-friendly error", async () => {
     await useTempProject();
 
@@ -1,8 +1,10 @@
 import path from "node:path";
 import readline from "node:readline/promises";
 
-import { ContextPacker, HybridRetriever, RepositoryIndexer } from "@fusy/core";
+import { loadProviderSettings, type ProviderSettings } from "@fusy/config";
+import { ContextPacker, EmbeddingRetriever, HybridRetriever, RepositoryIndexer } from "@fusy/core";
 import { SqliteMemoryStore } from "@fusy/memory";
+import { PricingRegistry, RateLimiterRegistry, createProviderRegistry, createUsageListener } from "@fusy/providers";
 import { Logger, exportDebugTrace, type TraceEvent } from "@fusy/telemetry";
 import { executeTool, type RunCommandPolicy, type ToolExecutionContext } from "@fusy/tools";
 
@@ -186,14 +188,47 @@ const getMemoryStore = (): SqliteMemoryStore =>
     dbPath: path.join(process.cwd(), ".fusy", "memory.sqlite")
   });
 
+/**
+ * Embeds with Gemini when a key is configured, else with a local OpenAI-compatible embedding model if one is named.
+ * Providers come from the registry that `FUSY_PROVIDERS` and `FUSY_PROVIDER_PLUGINS` extend, behind `FUSY_RATE_LIMITS`,
+ * and each embedding request is logged as `llm.usage`, priced with `FUSY_PRICING`.
+ */
+const createSemanticRetriever = async (
+  memory: SqliteMemoryStore,
+  config: ProviderSettings,
+  logger: Logger,
+  sessionId: string,
+  signal?: AbortSignal
+): Promise<EmbeddingRetriever | undefined> => {
+  const name = process.env.GEMINI_API_KEY ? "gemini" : process.env.FUSY_OPENAI_EMBEDDING_MODEL ? "openai-compatible" : undefined;
+  if (!name) {
+    return undefined;
+  }
+
+  // Entries were shape-checked by loadProviderSettings; the registry validates what they extend.
+  const registry = await createProviderRegistry({ plugins: config.providerPlugins, providers: config.providers });
+  const provider = new RateLimiterRegistry(config.rateLimits, logger).wrap(registry.create(name));
+  if (!provider.embed) {
+    return undefined;
+  }
+
+  const embedding = { name: provider.name, model: provider.model, embeddingModel: provider.embeddingModel };
+  const onResponse = createUsageListener(new PricingRegistry(config.pricingOverrides), logger, { sessionId, operation: "embed" });
+  return new EmbeddingRetriever(
+    { ...embedding, embed: provider.embed.bind(provider) },
+    { store: memory, embedOptions: { onResponse, signal } }
+  );
+};
+
 const createSessionId = (): string => `session-${Date.now()}`;
 
 const traceEvent = (events: TraceEvent[], requestId: string, event: string, payload?: Record<string, unknown>): void => {
   events.push({ ts: new Date().toISOString(), requestId, event, payload });
 };
 
-const handlePair = async (argv: string[], logger: Logger, traces: TraceEvent[]): Promise<void> => {
+const handlePair = async (argv: string[], logger: Logger, traces: TraceEvent[], signal?: AbortSignal): Promise<number> => {
   const parsedArgs = parseCliArgs(argv, ["session"]);
+  const config = loadProviderSettings();
   const memory = getMemoryStore();
   const sessionId = parsedArgs.flags.session ?? createSessionId();
   const intent = parsedArgs.positionalArgs.join(" ").trim() || "Pairing task";
@@ -203,11 +238,29 @@ const handlePair = async (argv: string[], logger: Logger, traces: TraceEvent[]):
 
   const indexer = new RepositoryIndexer();
   const index = await indexer.index(process.cwd());
-  const retriever = new HybridRetriever();
-  const retrieval = await retriever.search(
-    intent,
-    index.files.slice(0, 30).map((file) => ({ id: file.path, text: `${file.path} ${file.extension}`, path: file.path }))
-  );
+  const candidates = index.files
+    .slice(0, 30)
+    .map((file) => ({ id: file.path, text: `${file.path} ${file.extension}`, path: file.path }));
+  let retrieval;
+  try {
+    const semanticRetriever = await createSemanticRetriever(memory, config, logger, sessionId, signal);
+    retrieval = await new HybridRetriever(semanticRetriever).search(intent, candidates);
+  } catch (error) {
+    // Pairing must still start when the embedding provider cannot be created or reached; rank lexically instead.
+    if (!signal?.aborted) {
+      logger.warn("Semantic retrieval failed, using lexical ranking", {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      retrieval = await new HybridRetriever().search(intent, candidates);
+    }
+  }
+
+  if (!retrieval || signal?.aborted) {
+    memory.upsertSession({ id: sessionId, status: "paused", summary: "Pairing cancelled" });
+    logger.info("pair cancelled", { sessionId });
+    memory.close();
+    return 130;
+  }
 
   const packer = new ContextPacker();
   const packed = packer.pack(
@@ -218,11 +271,12 @@ const handlePair = async (argv: string[], logger: Logger, traces: TraceEvent[]):
   memory.setProjectMemory(process.cwd(), `session:${sessionId}:context`, JSON.stringify(packed), true);
 
   logger.info("Started pairing session", { sessionId, indexedFiles: index.files.length, symbols: index.symbols.length });
-  logger.usage("context-packed", { tokensIn: packed.usedTokens, tokensOut: 0, costUsd: 0 }, { dropped: packed.droppedChunkIds.length });
+  logger.info("context-packed", { usedTokens: packed.usedTokens, dropped: packed.droppedChunkIds.length });
   memory.close();
+  return 0;
 };
 
-const handleRun = async (argv: string[], logger: Logger, traces: TraceEvent[]): Promise<number> => {
+const handleRun = async (argv: string[], logger: Logger, traces: TraceEvent[], signal?: AbortSignal): Promise<number> => {
   const parsedArgs = parseCliArgs(argv, ["session", "require-approval", "allow-list", "deny-list"]);
   const memory = getMemoryStore();
   const sessionId = parsedArgs.flags.session ?? createSessionId();
@@ -234,13 +288,15 @@ const handleRun = async (argv: string[], logger: Logger, traces: TraceEvent[]):
 
   memory.upsertSession({ id: sessionId, status: "active", plan: `run ${command}` });
   const policy = resolveRunCommandPolicy(parsedArgs.flags);
-  const { decision, result } = await executeWithPolicy(command, { cwd: process.cwd(), policy });
+  const { decision, result } = await executeWithPolicy(command, { cwd: process.cwd(), policy, signal });
+  const cancelled = signal?.aborted === true;
 
   traceEvent(traces, logger.getRequestId(), "run.command", {
     sessionId,
     command,
     decision,
-    success: result.success
+    success: result.success,
+    cancelled
   });
 
   const decisionRecord = {
@@ -265,12 +321,17 @@ const handleRun = async (argv: string[], logger: Logger, traces: TraceEvent[]):
   memory.upsertSession({
     id: sessionId,
     status: result.success ? "completed" : "paused",
-    summary: result.success ? `Command succeeded: ${command}` : `Command failed: ${command}`
+    summary: result.success
+      ? `Command succeeded: ${command}`
+      : cancelled
+        ? `Command cancelled: ${command}`
+        : `Command failed: ${command}`
   });
 
-  logger.info("run completed", { sessionId, command, decision, success: result.success });
+  logger.info("run completed", { sessionId, command, decision, success: result.success, cancelled });
   memory.close();
-  return result.success ? 0 : 1;
+  // 130 mirrors the shell convention for a process interrupted by SIGINT.
+  return cancelled ? 130 : result.success ? 0 : 1;
 };
 
 const handleResume = (sessionId: string | undefined, logger: Logger): void => {
@@ -323,7 +384,7 @@ const handleMemory = (argv: string[]): void => {
   memory.close();
 };
 
-export const executeCli = async (argv: string[]): Promise<number> => {
+export const executeCli = async (argv: string[], signal?: AbortSignal): Promise<number> => {
   const [command, ...rest] = argv;
   const logger = new Logger();
   const traces: TraceEvent[] = [];
@@ -333,10 +394,8 @@ export const executeCli = async (argv: string[]): Promise<number> => {
     return 0;
   }
 
-  if (command === "pair") {
-    await handlePair(rest, logger, traces);
-  } else if (command === "run") {
-    const code = await handleRun(rest, logger, traces);
+  if (command === "pair" || command === "run") {
+    const code = command === "pair" ? await handlePair(rest, logger, traces, signal) : await handleRun(rest, logger, traces, signal);
     if (code !== 0) {
       await exportDebugTrace(traces);
       return code;
@@ -362,7 +421,11 @@ export const executeCli = async (argv: string[]): Promise<number> => {
 const isMain = process.argv[1] && path.resolve(process.argv[1]).includes(`${path.sep}apps${path.sep}cli${path.sep}`);
 
 if (isMain) {
-  void executeCli(process.argv.slice(2)).then((code) => {
+  const controller = new AbortController();
+  // The first Ctrl-C cancels in-flight work cleanly; a second one falls back to Node's default exit.
+  process.once("SIGINT", () => controller.abort());
+
+  void executeCli(process.argv.slice(2), controller.signal).then((code) => {
     if (code !== 0) {
       process.exit(code);
     }
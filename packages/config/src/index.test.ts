@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { loadConfig, loadProviderSettings } from "./index.js";
+
+describe("loadConfig", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("parses every FUSY_* setting", () => {
+    vi.stubEnv("FUSY_PRICING", '{"groq:llama":{"inputPerMillionUsd":0.5,"outputPerMillionUsd":1}}');
+    vi.stubEnv("FUSY_RATE_LIMITS", '{"groq:*":{"requestsPerMinute":30,"maxConcurrency":2}}');
+    vi.stubEnv(
+      "FUSY_PROVIDERS",
+      '[{"name":"corp","extends":"openai-compatible","capabilities":{"vision":true},"options":{"baseUrl":"https://llm.corp/v1"}}]'
+    );
+    vi.stubEnv("FUSY_PROVIDER_PLUGINS", " ./plugin.mjs , fusy-provider-acme ,");
+    vi.stubEnv("FUSY_FALLBACK_CHAINS", '{"chat:low":["groq","gemini"]}');
+    vi.stubEnv("FUSY_SPENDING_LIMITS", '{"day":{"maxUsd":5,"warnAt":0.9},"session":{"maxTokens":2000000}}');
+    vi.stubEnv("FUSY_SPENDING_ON_LIMIT", "downgrade");
+
+    expect(loadConfig()).toMatchObject({
+      pricingOverrides: { "groq:llama": { inputPerMillionUsd: 0.5, outputPerMillionUsd: 1 } },
+      rateLimits: { "groq:*": { requestsPerMinute: 30, maxConcurrency: 2 } },
+      providers: [
+        { name: "corp", extends: "openai-compatible", capabilities: { vision: true }, options: { baseUrl: "https://llm.corp/v1" } }
+      ],
+      providerPlugins: ["./plugin.mjs", "fusy-provider-acme"],
+      fallbackChains: { "chat:low": ["groq", "gemini"] },
+      spending: { limits: { day: { maxUsd: 5, warnAt: 0.9 }, session: { maxTokens: 2_000_000 } }, onLimit: "downgrade" }
+    });
+  });
+
+  it("defaults every optional setting when the environment is empty", () => {
+    for (const name of ["FUSY_PRICING", "FUSY_RATE_LIMITS", "FUSY_PROVIDERS", "FUSY_SPENDING_LIMITS"]) {
+      vi.stubEnv(name, undefined);
+    }
+
+    expect(loadConfig()).toMatchObject({
+      pricingOverrides: {},
+      rateLimits: {},
+      providers: [],
+      spending: { limits: {}, onLimit: "refuse" }
+    });
+  });
+
+  it("rejects malformed JSON", () => {
+    for (const [name, message] of [
+      ["FUSY_PRICING", /FUSY_PRICING must be a JSON object/],
+      ["FUSY_RATE_LIMITS", /FUSY_RATE_LIMITS must be a JSON object/],
+      ["FUSY_PROVIDERS", /FUSY_PROVIDERS must be a JSON array/],
+      ["FUSY_FALLBACK_CHAINS", /FUSY_FALLBACK_CHAINS must be a JSON object/],
+      ["FUSY_SPENDING_LIMITS", /FUSY_SPENDING_LIMITS must be a JSON object/]
+    ] as const) {
+      vi.stubEnv(name, "{not json");
+      expect(loadConfig, name).toThrow(message);
+      vi.stubEnv(name, undefined);
+    }
+  });
+
+  it("rejects bad enum values and invalid entries", () => {
+    const cases = [
+      ["FUSY_SPENDING_ON_LIMIT", "ignore", /FUSY_SPENDING_ON_LIMIT must be one of refuse, downgrade/],
+      ["FUSY_SPENDING_LIMITS", '{"week":{"maxUsd":1}}', /unknown scope week/],
+      ["FUSY_SPENDING_LIMITS", '{"day":{"maxUsd":1,"warnAt":2}}', /entry day needs/],
+      ["FUSY_RATE_LIMITS", '{"groq:*":{"requestsPerMinute":0}}', /entry groq:\* needs positive/],
+      ["FUSY_PROVIDERS", '[{"name":"a","extends":"groq"},{"name":"a","extends":"groq"}]', /declares a more than once/],
+      ["FUSY_PROVIDERS", '[{"name":"a","extends":"groq","capabilities":{"vision":"yes"}}]', /entry a needs capabilities with boolean/],
+      ["FUSY_PROVIDERS", '[{"name":"a","extends":"groq","capabilities":{"maxContextTokens":0}}]', /positive maxContextTokens/],
+      ["FUSY_FALLBACK_CHAINS", '{"chat:low":[]}', /entry chat:low needs a non-empty array/]
+    ] as const;
+
+    for (const [name, value, message] of cases) {
+      vi.stubEnv(name, value);
+      expect(loadConfig, `${name}=${value}`).toThrow(message);
+      vi.stubEnv(name, undefined);
+    }
+  });
+
+  it("reads provider settings without parsing the router-only ones", () => {
+    vi.stubEnv("FUSY_RATE_LIMITS", '{"groq:*":{"maxConcurrency":2}}');
+    vi.stubEnv("FUSY_FALLBACK_CHAINS", "{not json");
+    vi.stubEnv("FUSY_SPENDING_LIMITS", '{"week":{"maxUsd":1}}');
+    vi.stubEnv("FUSY_SPENDING_ON_LIMIT", "ignore");
+
+    expect(loadProviderSettings()).toEqual({
+      pricingOverrides: {},
+      rateLimits: { "groq:*": { maxConcurrency: 2 } },
+      providers: [],
+      providerPlugins: []
+    });
+    expect(loadConfig).toThrow(/FUSY_FALLBACK_CHAINS/);
+  });
+});
@@ -1,9 +1,255 @@
+export interface ModelPricingOverride {
+  inputPerMillionUsd: number;
+  outputPerMillionUsd: number;
+}
+
+export interface RateLimitConfig {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  maxConcurrency?: number;
+}
+
+/** Capability overrides for a configured provider; fields left out keep the values of the adapter it extends. */
+export interface ProviderCapabilitiesConfig {
+  streaming?: boolean;
+  toolCalling?: boolean;
+  structuredOutput?: boolean;
+  maxContextTokens?: number;
+  preferredForLowLatency?: boolean;
+  preferredForLowCost?: boolean;
+  vision?: boolean;
+  embeddings?: boolean;
+}
+
+/** A provider declared by reusing a registered adapter, e.g. an internal OpenAI-style gateway. */
+export interface ProviderEntryConfig {
+  name: string;
+  extends: string;
+  defaultModel?: string;
+  capabilities?: ProviderCapabilitiesConfig;
+  options?: Record<string, unknown>;
+}
+
+export type SpendingScopeConfig = "session" | "day" | "project";
+
+export interface SpendingLimitConfig {
+  maxUsd?: number;
+  maxTokens?: number;
+  /** Fraction of the ceiling that logs a warning. */
+  warnAt?: number;
+}
+
+export interface SpendingConfig {
+  limits: Partial<Record<SpendingScopeConfig, SpendingLimitConfig>>;
+  onLimit: "refuse" | "downgrade";
+}
+
 export interface AppConfig {
   nodeEnv: string;
   logLevel: string;
+  /** Per-model price overrides keyed by `provider:model`, read from `FUSY_PRICING` as JSON. */
+  pricingOverrides: Record<string, ModelPricingOverride>;
+  /** Client-side limits keyed by `provider:model` or `provider:*`, read from `FUSY_RATE_LIMITS` as JSON. */
+  rateLimits: Record<string, RateLimitConfig>;
+  /** Extra providers, read from `FUSY_PROVIDERS` as a JSON array. */
+  providers: ProviderEntryConfig[];
+  /** Provider plugin modules (paths or package names), read from `FUSY_PROVIDER_PLUGINS` as a comma-separated list. */
+  providerPlugins: string[];
+  /** Router chains keyed by `taskType:budget` (either part may be `*`), read from `FUSY_FALLBACK_CHAINS` as JSON. */
+  fallbackChains: Record<string, string[]>;
+  /** Ceilings keyed by `session`, `day` or `project` from `FUSY_SPENDING_LIMITS` as JSON, and `FUSY_SPENDING_ON_LIMIT`. */
+  spending: SpendingConfig;
 }
 
+/** Settings for creating providers and pricing their usage, without the router-only ones. */
+export type ProviderSettings = Pick<AppConfig, "pricingOverrides" | "rateLimits" | "providers" | "providerPlugins">;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isArray = (value: unknown): value is unknown[] => Array.isArray(value);
+
+/** Parses a JSON setting, throwing `message` when it is not valid JSON or not the shape `isShape` expects. */
+const parseJsonSetting = <T>(input: string, message: string, isShape: (value: unknown) => value is T): T => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(input);
+  } catch {
+    throw new Error(message);
+  }
+
+  if (!isShape(parsed)) {
+    throw new Error(message);
+  }
+
+  return parsed;
+};
+
+const parsePricingOverrides = (input: string | undefined): Record<string, ModelPricingOverride> => {
+  if (!input) {
+    return {};
+  }
+
+  const parsed = parseJsonSetting(input, "FUSY_PRICING must be a JSON object keyed by provider:model", isPlainObject);
+
+  for (const [key, value] of Object.entries(parsed)) {
+    const pricing = value as Partial<ModelPricingOverride> | null;
+    if (typeof pricing?.inputPerMillionUsd !== "number" || typeof pricing.outputPerMillionUsd !== "number") {
+      throw new Error(`FUSY_PRICING entry ${key} needs numeric inputPerMillionUsd and outputPerMillionUsd`);
+    }
+  }
+
+  return parsed as Record<string, ModelPricingOverride>;
+};
+
+const RATE_LIMIT_FIELDS = ["requestsPerMinute", "tokensPerMinute", "maxConcurrency"] as const;
+
+const parseRateLimits = (input: string | undefined): Record<string, RateLimitConfig> => {
+  if (!input) {
+    return {};
+  }
+
+  const parsed = parseJsonSetting(input, "FUSY_RATE_LIMITS must be a JSON object keyed by provider:model", isPlainObject);
+
+  for (const [key, value] of Object.entries(parsed)) {
+    const isValid =
+      isPlainObject(value) &&
+      RATE_LIMIT_FIELDS.every((field) => value[field] === undefined || (typeof value[field] === "number" && value[field] > 0));
+    if (!isValid) {
+      throw new Error(`FUSY_RATE_LIMITS entry ${key} needs positive numeric ${RATE_LIMIT_FIELDS.join(", ")}`);
+    }
+  }
+
+  return parsed as Record<string, RateLimitConfig>;
+};
+
+const CAPABILITY_FLAGS = [
+  "streaming",
+  "toolCalling",
+  "structuredOutput",
+  "preferredForLowLatency",
+  "preferredForLowCost",
+  "vision",
+  "embeddings"
+] as const;
+
+const isCapabilities = (value: unknown): value is ProviderCapabilitiesConfig =>
+  isPlainObject(value) &&
+  Object.entries(value).every(([field, flag]) =>
+    field === "maxContextTokens"
+      ? typeof flag === "number" && flag > 0
+      : CAPABILITY_FLAGS.includes(field as (typeof CAPABILITY_FLAGS)[number]) && typeof flag === "boolean"
+  );
+
+const parseProviders = (input: string | undefined): ProviderEntryConfig[] => {
+  if (!input) {
+    return [];
+  }
+
+  const parsed = parseJsonSetting(input, "FUSY_PROVIDERS must be a JSON array of provider entries", isArray);
+
+  const names = new Set<string>();
+  parsed.forEach((value, index) => {
+    const entry = value as Partial<ProviderEntryConfig> | null;
+    if (typeof entry?.name !== "string" || !entry.name || typeof entry.extends !== "string" || !entry.extends) {
+      throw new Error(`FUSY_PROVIDERS entry ${index} needs string name and extends`);
+    }
+    if (entry.defaultModel !== undefined && typeof entry.defaultModel !== "string") {
+      throw new Error(`FUSY_PROVIDERS entry ${entry.name} has a non-string defaultModel`);
+    }
+    if (entry.capabilities !== undefined && !isCapabilities(entry.capabilities)) {
+      throw new Error(
+        `FUSY_PROVIDERS entry ${entry.name} needs capabilities with boolean ${CAPABILITY_FLAGS.join(", ")} ` +
+          "and a positive maxContextTokens"
+      );
+    }
+    if (entry.options !== undefined && !isPlainObject(entry.options)) {
+      throw new Error(`FUSY_PROVIDERS entry ${entry.name} needs options to be an object`);
+    }
+    if (names.has(entry.name)) {
+      throw new Error(`FUSY_PROVIDERS declares ${entry.name} more than once`);
+    }
+    names.add(entry.name);
+  });
+
+  return parsed as ProviderEntryConfig[];
+};
+
+// Chain keys and entries are checked against the registered providers when the router is built.
+const parseFallbackChains = (input: string | undefined): Record<string, string[]> => {
+  if (!input) {
+    return {};
+  }
+
+  const parsed = parseJsonSetting(input, "FUSY_FALLBACK_CHAINS must be a JSON object keyed by taskType:budget", isPlainObject);
+
+  for (const [key, chain] of Object.entries(parsed)) {
+    if (!Array.isArray(chain) || chain.length === 0 || !chain.every((entry) => typeof entry === "string" && entry !== "")) {
+      throw new Error(`FUSY_FALLBACK_CHAINS entry ${key} needs a non-empty array of provider or provider:model names`);
+    }
+  }
+
+  return parsed as Record<string, string[]>;
+};
+
+const SPENDING_SCOPES: readonly SpendingScopeConfig[] = ["session", "day", "project"];
+
+const parseSpending = (limits: string | undefined, onLimit: string | undefined): SpendingConfig => {
+  if (onLimit !== undefined && onLimit !== "refuse" && onLimit !== "downgrade") {
+    throw new Error("FUSY_SPENDING_ON_LIMIT must be one of refuse, downgrade");
+  }
+
+  const mode = onLimit ?? "refuse";
+  if (!limits) {
+    return { limits: {}, onLimit: mode };
+  }
+
+  const parsed = parseJsonSetting(
+    limits,
+    `FUSY_SPENDING_LIMITS must be a JSON object keyed by ${SPENDING_SCOPES.join(", ")}`,
+    isPlainObject
+  );
+
+  for (const [key, limit] of Object.entries(parsed)) {
+    if (!SPENDING_SCOPES.includes(key as SpendingScopeConfig)) {
+      throw new Error(`FUSY_SPENDING_LIMITS has unknown scope ${key}; use ${SPENDING_SCOPES.join(", ")}`);
+    }
+
+    const isPositive = (entry: Record<string, unknown>, field: string): boolean =>
+      entry[field] === undefined || (typeof entry[field] === "number" && entry[field] > 0);
+    const isValid =
+      isPlainObject(limit) &&
+      (limit.maxUsd !== undefined || limit.maxTokens !== undefined) &&
+      isPositive(limit, "maxUsd") &&
+      isPositive(limit, "maxTokens") &&
+      isPositive(limit, "warnAt") &&
+      (typeof limit.warnAt !== "number" || limit.warnAt <= 1);
+    if (!isValid) {
+      throw new Error(`FUSY_SPENDING_LIMITS entry ${key} needs a positive maxUsd or maxTokens and warnAt between 0 and 1`);
+    }
+  }
+
+  return { limits: parsed as SpendingConfig["limits"], onLimit: mode };
+};
+
+const parseList = (input: string | undefined): string[] =>
+  (input ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/** Reads only the provider settings, so an invalid router-only setting cannot fail a caller that never routes. */
+export const loadProviderSettings = (): ProviderSettings => ({
+  pricingOverrides: parsePricingOverrides(process.env.FUSY_PRICING),
+  rateLimits: parseRateLimits(process.env.FUSY_RATE_LIMITS),
+  providers: parseProviders(process.env.FUSY_PROVIDERS),
+  providerPlugins: parseList(process.env.FUSY_PROVIDER_PLUGINS)
+});
+
 export const loadConfig = (): AppConfig => ({
   nodeEnv: process.env.NODE_ENV ?? "development",
-  logLevel: process.env.LOG_LEVEL ?? "info"
+  logLevel: process.env.LOG_LEVEL ?? "info",
+  ...loadProviderSettings(),
+  fallbackChains: parseFallbackChains(process.env.FUSY_FALLBACK_CHAINS),
+  spending: parseSpending(process.env.FUSY_SPENDING_LIMITS, process.env.FUSY_SPENDING_ON_LIMIT)
 });
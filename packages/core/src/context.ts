@@ -1,5 +1,6 @@
 import { promises as fs } from "node:fs";
 import path from "node:path";
+import { DEFAULT_TOKENIZER, type Tokenizer } from "@fusy/providers";
 
 export interface FileMetadata {
   path: string;
@@ -197,13 +198,15 @@ export interface PackedContext {
 }
 
 export interface ContextPackingOptions {
+  /** Usually the target model's `capabilities.maxContextTokens`. */
   tokenBudget: number;
   reservedTokens?: number;
 }
 
-const estimateTokens = (text: string): number => Math.max(1, Math.ceil(text.length / 4));
-
+/** Packs chunks counted with the target model's tokenizer, e.g. from `TokenizerRegistry.get`. */
 export class ContextPacker {
+  constructor(private readonly tokenizer: Tokenizer = DEFAULT_TOKENIZER) {}
+
   pack(chunks: readonly ContextChunk[], options: ContextPackingOptions): PackedContext {
     const budget = Math.max(0, options.tokenBudget - (options.reservedTokens ?? 0));
     const selected: ContextChunk[] = [];
@@ -215,13 +218,13 @@ export class ContextPacker {
         return right.priority - left.priority;
       }
 
-      const leftTokens = left.tokenEstimate ?? estimateTokens(left.text);
-      const rightTokens = right.tokenEstimate ?? estimateTokens(right.text);
+      const leftTokens = left.tokenEstimate ?? this.countTokens(left.text);
+      const rightTokens = right.tokenEstimate ?? this.countTokens(right.text);
       return leftTokens - rightTokens;
     });
 
     for (const chunk of ranked) {
-      const tokens = chunk.tokenEstimate ?? estimateTokens(chunk.text);
+      const tokens = chunk.tokenEstimate ?? this.countTokens(chunk.text);
       if (usedTokens + tokens <= budget) {
         selected.push({ ...chunk, tokenEstimate: tokens });
         usedTokens += tokens;
@@ -232,4 +235,8 @@ export class ContextPacker {
 
     return { chunks: selected, usedTokens, budget, droppedChunkIds: dropped };
   }
+
+  private countTokens(text: string): number {
+    return Math.max(1, this.tokenizer.count(text));
+  }
 }
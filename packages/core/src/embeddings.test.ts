@@ -0,0 +1,79 @@
+import { ScriptedProvider, type ScriptedStep } from "@fusy/providers";
+import { describe, expect, it } from "vitest";
+
+import { EmbeddingRetriever, HybridRetriever, InMemoryEmbeddingStore, cosineSimilarity, hashContent } from "./index.js";
+
+const VECTORS: Record<string, number[]> = {
+  "fix the router": [1, 0],
+  "provider routing and fallback": [0.9, 0.1],
+  "sqlite session memory": [0, 1],
+  "telemetry logger": [0.2, 0.8]
+};
+
+const lookup: ScriptedStep = (call) => ({ embeddings: (call.texts ?? []).map((text) => VECTORS[text] ?? [0, 0]) });
+
+const makeEmbedder = (embeddingModel = "embedding-test") =>
+  new ScriptedProvider({ name: "gemini", model: "gemini-test", embeddingModel, steps: Array.from({ length: 4 }, () => lookup) });
+
+const docs = [
+  { id: "router.ts", text: "provider routing and fallback" },
+  { id: "memory.ts", text: "sqlite session memory" },
+  { id: "logger.ts", text: "telemetry logger" }
+];
+
+describe("embedding retriever", () => {
+  it("ranks documents by cosine similarity to the query", async () => {
+    const retriever = new EmbeddingRetriever(makeEmbedder());
+
+    const results = await retriever.search("fix the router", docs, 2);
+
+    expect(results.map((result) => result.id)).toEqual(["router.ts", "logger.ts"]);
+    expect(results[0].score).toBeCloseTo(0.994, 3);
+    expect(cosineSimilarity([1, 0], [0, 0])).toBe(0);
+  });
+
+  it("only embeds content it has not stored before", async () => {
+    const store = new InMemoryEmbeddingStore();
+    const embedder = makeEmbedder();
+
+    await new EmbeddingRetriever(embedder, { store, batchSize: 2 }).search("fix the router", docs, 3);
+    expect(embedder.calls).toHaveLength(2);
+
+    const changed = [...docs, { id: "notes.md", text: "changed file" }];
+    await new EmbeddingRetriever(embedder, { store }).search("fix the router", changed, 3);
+    expect(embedder.calls).toHaveLength(3);
+    expect(embedder.calls[2].texts).toEqual(["changed file"]);
+  });
+
+  it("rejects a batch answered with fewer vectors than texts and stores none of it", async () => {
+    const store = new InMemoryEmbeddingStore();
+    const short = new ScriptedProvider({ name: "gemini", model: "gemini-test", steps: [{ embeddings: [[1, 0]] }] });
+
+    await expect(new EmbeddingRetriever(short, { store }).search("fix the router", docs, 3)).rejects.toMatchObject({
+      code: "UNKNOWN",
+      provider: "gemini",
+      message: "gemini returned 1 embeddings for 4 texts"
+    });
+    expect(store.getEmbeddings("gemini:gemini-test-embedding", docs.map((doc) => hashContent(doc.text))).size).toBe(0);
+  });
+
+  it("keeps vectors from different embedding models apart", async () => {
+    const store = new InMemoryEmbeddingStore();
+    const first = makeEmbedder();
+    const second = makeEmbedder("embedding-next");
+
+    await new EmbeddingRetriever(first, { store }).search("fix the router", docs, 3);
+    await new EmbeddingRetriever(second, { store }).search("fix the router", docs, 3);
+
+    expect(second.calls).toHaveLength(1);
+  });
+
+  it("feeds semantic scores into hybrid retrieval", async () => {
+    const hybrid = new HybridRetriever(new EmbeddingRetriever(makeEmbedder()));
+
+    const [top] = await hybrid.search("fix the router", docs, { limit: 1 });
+
+    expect(top.candidate.id).toBe("router.ts");
+    expect(top.semanticScore).toBeGreaterThan(0.9);
+  });
+});
@@ -0,0 +1,124 @@
+import { createHash } from "node:crypto";
+import { ProviderError, type LLMEmbedOptions, type LLMProvider } from "@fusy/providers";
+import type { RetrievalCandidate, SemanticRetriever } from "./context.js";
+
+/**
+ * Persists vectors keyed by a namespace (provider and embedding model) and a content hash.
+ * `SqliteMemoryStore` from `@fusy/memory` satisfies this structurally.
+ */
+export interface EmbeddingStore {
+  getEmbeddings(
+    namespace: string,
+    contentHashes: readonly string[]
+  ): ReadonlyMap<string, readonly number[]> | Promise<ReadonlyMap<string, readonly number[]>>;
+  setEmbeddings(namespace: string, vectors: ReadonlyMap<string, readonly number[]>): void | Promise<void>;
+}
+
+export class InMemoryEmbeddingStore implements EmbeddingStore {
+  private readonly vectors = new Map<string, readonly number[]>();
+
+  getEmbeddings(namespace: string, contentHashes: readonly string[]): ReadonlyMap<string, readonly number[]> {
+    const found = new Map<string, readonly number[]>();
+    for (const hash of contentHashes) {
+      const vector = this.vectors.get(`${namespace}:${hash}`);
+      if (vector) {
+        found.set(hash, vector);
+      }
+    }
+
+    return found;
+  }
+
+  setEmbeddings(namespace: string, vectors: ReadonlyMap<string, readonly number[]>): void {
+    vectors.forEach((vector, hash) => this.vectors.set(`${namespace}:${hash}`, vector));
+  }
+}
+
+export type EmbeddingProvider = Pick<LLMProvider, "name" | "model" | "embeddingModel"> &
+  Required<Pick<LLMProvider, "embed">>;
+
+export interface EmbeddingRetrieverOptions {
+  /** Defaults to an in-process store, so vectors only survive for the retriever's lifetime. */
+  readonly store?: EmbeddingStore;
+  /** Maximum texts sent per `embed` call. */
+  readonly batchSize?: number;
+  readonly embedOptions?: LLMEmbedOptions;
+}
+
+export const hashContent = (text: string): string => createHash("sha256").update(text).digest("hex");
+
+export const cosineSimilarity = (left: readonly number[], right: readonly number[]): number => {
+  let dot = 0;
+  let leftNorm = 0;
+  let rightNorm = 0;
+  for (let index = 0; index < Math.min(left.length, right.length); index += 1) {
+    dot += left[index] * right[index];
+    leftNorm += left[index] * left[index];
+    rightNorm += right[index] * right[index];
+  }
+
+  return leftNorm === 0 || rightNorm === 0 ? 0 : dot / Math.sqrt(leftNorm * rightNorm);
+};
+
+/**
+ * `SemanticRetriever` backed by a provider's `embed`. Candidate vectors are stored by content hash,
+ * so only new or changed documents are embedded on later searches.
+ */
+export class EmbeddingRetriever implements SemanticRetriever {
+  private readonly store: EmbeddingStore;
+  private readonly batchSize: number;
+  private readonly namespace: string;
+
+  constructor(
+    private readonly provider: EmbeddingProvider,
+    private readonly options: EmbeddingRetrieverOptions = {}
+  ) {
+    this.store = options.store ?? new InMemoryEmbeddingStore();
+    this.batchSize = options.batchSize ?? 64;
+    this.namespace = `${provider.name}:${provider.embeddingModel ?? provider.model}`;
+  }
+
+  async search(
+    query: string,
+    docs: readonly RetrievalCandidate[],
+    limit: number
+  ): Promise<Array<{ id: string; score: number }>> {
+    if (docs.length === 0) {
+      return [];
+    }
+
+    const vectors = await this.vectorsFor([query, ...docs.map((doc) => doc.text)]);
+    const queryVector = vectors.get(hashContent(query)) ?? [];
+
+    return docs
+      .map((doc) => ({ id: doc.id, score: cosineSimilarity(queryVector, vectors.get(hashContent(doc.text)) ?? []) }))
+      .sort((left, right) => right.score - left.score)
+      .slice(0, limit);
+  }
+
+  private async vectorsFor(texts: readonly string[]): Promise<Map<string, readonly number[]>> {
+    const byHash = new Map(texts.map((text) => [hashContent(text), text]));
+    const vectors = new Map(await this.store.getEmbeddings(this.namespace, [...byHash.keys()]));
+    const missing = [...byHash].filter(([hash]) => !vectors.has(hash));
+
+    for (let start = 0; start < missing.length; start += this.batchSize) {
+      const batch = missing.slice(start, start + this.batchSize);
+      const embedded = await this.provider.embed(batch.map(([, text]) => text), this.options.embedOptions);
+      // A short answer would otherwise be cached as missing vectors under real content hashes for good.
+      if (embedded.length !== batch.length) {
+        throw new ProviderError({
+          provider: this.provider.name,
+          code: "UNKNOWN",
+          message: `${this.provider.name} returned ${embedded.length} embeddings for ${batch.length} texts`,
+          retryable: false
+        });
+      }
+
+      const fresh = new Map(batch.map(([hash], index) => [hash, embedded[index]]));
+      await this.store.setEmbeddings(this.namespace, fresh);
+      fresh.forEach((vector, hash) => vectors.set(hash, vector));
+    }
+
+    return vectors;
+  }
+}
@@ -0,0 +1,97 @@
+import { ProviderError, ScriptedProvider, type ScriptedStep } from "@fusy/providers";
+import { describe, expect, it, vi } from "vitest";
+
+import { HealthTracker, ProviderRouter } from "./index.js";
+
+const timeout = (provider: string): ProviderError =>
+  new ProviderError({ provider, code: "TIMEOUT", message: "timed out", retryable: true });
+
+const failures = (provider: string, count: number): ScriptedStep[] =>
+  Array.from({ length: count }, () => ({ error: timeout(provider) }));
+
+describe("health tracker", () => {
+  it("opens after consecutive failures, admits one probe after the cool-down and doubles it when the probe fails", () => {
+    let now = 0;
+    const events = { info: vi.fn(), warn: vi.fn() };
+    const tracker = new HealthTracker({ failureThreshold: 2, coolDownMs: 1_000, events, now: () => now });
+    const provider = new ScriptedProvider({ name: "gemini" });
+
+    tracker.recordFailure(provider, timeout("gemini"));
+    expect(tracker.get(provider)).toMatchObject({ state: "closed", consecutiveFailures: 1 });
+    tracker.recordFailure(provider, timeout("gemini"));
+    expect(tracker.get(provider)).toMatchObject({ state: "open", retryAt: 1_000, lastErrorCode: "TIMEOUT" });
+    expect(events.warn).toHaveBeenCalledWith("llm.circuit.opened", expect.objectContaining({ provider: "gemini", coolDownMs: 1_000 }));
+    expect(tracker.tryAcquire(provider)).toBe(false);
+
+    now = 1_000;
+    expect(tracker.tryAcquire(provider)).toBe(true);
+    expect(tracker.get(provider).state).toBe("half-open");
+    expect(tracker.tryAcquire(provider)).toBe(false);
+    tracker.recordFailure(provider, timeout("gemini"));
+    expect(tracker.get(provider)).toMatchObject({ state: "open", coolDownMs: 2_000, retryAt: 3_000 });
+
+    now = 3_000;
+    expect(tracker.tryAcquire(provider)).toBe(true);
+    tracker.recordSuccess(provider);
+    expect(tracker.get(provider)).toEqual({ provider: "gemini", model: "gemini-scripted", state: "closed", consecutiveFailures: 0 });
+    expect(events.info).toHaveBeenCalledWith("llm.circuit.closed", { provider: "gemini", model: "gemini-scripted" });
+  });
+
+  it("ignores cancellations, treats answered errors as healthy and restores saved state", () => {
+    let now = 0;
+    const provider = new ScriptedProvider({ name: "groq" });
+    const tracker = new HealthTracker({ failureThreshold: 2, now: () => now });
+
+    tracker.recordFailure(provider, timeout("groq"));
+    tracker.recordFailure(provider, new ProviderError({ provider: "groq", code: "CANCELLED", message: "stop" }));
+    expect(tracker.get(provider).consecutiveFailures).toBe(1);
+    tracker.recordFailure(provider, new ProviderError({ provider: "groq", code: "INVALID_REQUEST", message: "bad schema" }));
+    expect(tracker.get(provider).consecutiveFailures).toBe(0);
+
+    tracker.recordFailure(provider, timeout("groq"));
+    tracker.recordFailure(provider, timeout("groq"));
+    const restored = new HealthTracker({ initial: tracker.snapshot(), now: () => now });
+    expect(restored.isAvailable(provider)).toBe(false);
+    now = 30_000;
+    expect(restored.isAvailable(provider)).toBe(true);
+  });
+
+  it("skips and demotes providers whose circuit is open instead of waiting on them", async () => {
+    let now = 0;
+    const gemini = new ScriptedProvider({
+      name: "gemini",
+      capabilities: { preferredForLowCost: true },
+      steps: [...failures("gemini", 3), { text: "gemini is back" }]
+    });
+    const groq = new ScriptedProvider({ name: "groq", steps: Array.from({ length: 4 }, () => ({ text: "from groq" })) });
+    const router = new ProviderRouter([gemini, groq], { health: new HealthTracker({ coolDownMs: 60_000, now: () => now }) });
+    const request = { taskType: "chat" as const, budget: "low" as const, prompt: "hi" };
+
+    await expect(router.generateWithFallback(request)).resolves.toBe("from groq");
+    await expect(router.generateWithFallback(request)).resolves.toBe("from groq");
+    await expect(router.generateWithFallback(request)).resolves.toBe("from groq");
+    expect(gemini.calls).toHaveLength(3);
+    expect(router.health.get(gemini).state).toBe("open");
+    expect(router.plan(request).primary.name).toBe("groq");
+
+    await expect(router.generateWithFallback(request)).resolves.toBe("from groq");
+    expect(gemini.calls).toHaveLength(3);
+
+    now = 60_000;
+    expect(router.plan(request).primary.name).toBe("gemini");
+    await expect(router.generateWithFallback(request)).resolves.toBe("gemini is back");
+    expect(router.health.snapshot()).toEqual([
+      { provider: "gemini", model: "gemini-scripted", state: "closed", consecutiveFailures: 0 }
+    ]);
+  });
+
+  it("fails with UNAVAILABLE when every provider in the chain is open", async () => {
+    const gemini = new ScriptedProvider({ name: "gemini", steps: failures("gemini", 1) });
+    const router = new ProviderRouter([gemini], { health: new HealthTracker({ failureThreshold: 1 }) });
+    const request = { taskType: "chat" as const, budget: "low" as const, prompt: "hi" };
+
+    await expect(router.generateWithFallback(request)).rejects.toMatchObject({ code: "TIMEOUT" });
+    await expect(router.generateWithFallback(request)).rejects.toMatchObject({ code: "UNAVAILABLE", provider: "gemini" });
+    expect(gemini.calls).toHaveLength(1);
+  });
+});
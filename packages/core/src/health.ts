@@ -0,0 +1,155 @@
+import type { LLMErrorCode, LLMProvider, ProviderError, ProviderName } from "@fusy/providers";
+
+/** `closed` sends requests, `open` skips the provider until its cool-down ends, `half-open` lets one probe through. */
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface ProviderHealth {
+  readonly provider: ProviderName;
+  readonly model: string;
+  readonly state: CircuitState;
+  readonly consecutiveFailures: number;
+  readonly lastErrorCode?: LLMErrorCode;
+  readonly lastFailureAt?: number;
+  /** When an open circuit admits its next probe. */
+  readonly retryAt?: number;
+  /** Cool-down the circuit opened with; doubles after every failed probe. */
+  readonly coolDownMs?: number;
+}
+
+/** Structural match for `Logger.info` and `Logger.warn` from `@fusy/telemetry`. */
+export interface HealthEventSink {
+  info(message: string, meta?: Record<string, unknown>): void;
+  warn(message: string, meta?: Record<string, unknown>): void;
+}
+
+export interface HealthTrackerOptions {
+  /** Consecutive failures that open the circuit; defaults to 3. */
+  readonly failureThreshold?: number;
+  /** Defaults to 30 seconds. */
+  readonly coolDownMs?: number;
+  /** Ceiling for the doubling cool-down; defaults to 5 minutes. */
+  readonly maxCoolDownMs?: number;
+  readonly events?: HealthEventSink;
+  /** State saved by `snapshot()`, e.g. in project memory, so a new process skips a provider that is still down. */
+  readonly initial?: readonly ProviderHealth[];
+  readonly now?: () => number;
+}
+
+// Errors that say nothing about whether the provider is up.
+const NEUTRAL_CODES: ReadonlySet<LLMErrorCode> = new Set(["CANCELLED", "UNAVAILABLE", "BUDGET_EXCEEDED"]);
+
+// The provider answered, so these count as evidence that it is healthy.
+const ANSWERED_CODES: ReadonlySet<LLMErrorCode> = new Set(["INVALID_REQUEST", "CONTENT_FILTERED", "OUTPUT_TRUNCATED"]);
+
+const healthKey = (provider: ProviderName, model: string): string => `${provider}:${model}`;
+
+/**
+ * Per-provider circuit breaker. Consecutive failures open the circuit; once the cool-down ends a
+ * single probe request is admitted, which closes the circuit on success or re-opens it with a
+ * doubled cool-down on failure.
+ */
+export class HealthTracker {
+  private readonly records = new Map<string, ProviderHealth>();
+  private readonly probing = new Set<string>();
+  private readonly failureThreshold: number;
+  private readonly coolDownMs: number;
+  private readonly maxCoolDownMs: number;
+  private readonly now: () => number;
+
+  constructor(private readonly options: HealthTrackerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 3;
+    this.coolDownMs = options.coolDownMs ?? 30_000;
+    this.maxCoolDownMs = options.maxCoolDownMs ?? 5 * 60_000;
+    this.now = options.now ?? Date.now;
+    (options.initial ?? []).forEach((health) => this.records.set(healthKey(health.provider, health.model), health));
+  }
+
+  get(provider: LLMProvider): ProviderHealth {
+    return (
+      this.records.get(healthKey(provider.name, provider.model)) ?? {
+        provider: provider.name,
+        model: provider.model,
+        state: "closed",
+        consecutiveFailures: 0
+      }
+    );
+  }
+
+  /** Current state of every provider that has been called, for logs and persistence. */
+  snapshot(): ProviderHealth[] {
+    return [...this.records.values()];
+  }
+
+  /** Whether a request would be admitted now; unlike `tryAcquire` this does not claim the probe. */
+  isAvailable(provider: LLMProvider): boolean {
+    const health = this.get(provider);
+    if (health.state === "closed") {
+      return true;
+    }
+
+    return this.now() >= (health.retryAt ?? 0) && !this.probing.has(healthKey(provider.name, provider.model));
+  }
+
+  /** Admits a request, moving an open circuit whose cool-down has ended to half-open for one probe. */
+  tryAcquire(provider: LLMProvider): boolean {
+    if (!this.isAvailable(provider)) {
+      return false;
+    }
+
+    const health = this.get(provider);
+    if (health.state !== "closed") {
+      this.probing.add(healthKey(provider.name, provider.model));
+      this.update({ ...health, state: "half-open" });
+      this.options.events?.info("llm.circuit.half_open", { provider: provider.name, model: provider.model });
+    }
+
+    return true;
+  }
+
+  recordSuccess(provider: LLMProvider): void {
+    const health = this.get(provider);
+    this.probing.delete(healthKey(provider.name, provider.model));
+    if (health.state !== "closed") {
+      this.options.events?.info("llm.circuit.closed", { provider: provider.name, model: provider.model });
+    }
+
+    if (health.state !== "closed" || health.consecutiveFailures > 0) {
+      this.update({ provider: provider.name, model: provider.model, state: "closed", consecutiveFailures: 0 });
+    }
+  }
+
+  recordFailure(provider: LLMProvider, error: ProviderError): void {
+    if (ANSWERED_CODES.has(error.code)) {
+      this.recordSuccess(provider);
+      return;
+    }
+
+    const key = healthKey(provider.name, provider.model);
+    const wasProbing = this.probing.delete(key);
+    if (NEUTRAL_CODES.has(error.code)) {
+      return;
+    }
+
+    const health = this.get(provider);
+    const consecutiveFailures = health.consecutiveFailures + 1;
+    const failure = { ...health, consecutiveFailures, lastErrorCode: error.code, lastFailureAt: this.now() };
+    if (!wasProbing && consecutiveFailures < this.failureThreshold) {
+      this.update(failure);
+      return;
+    }
+
+    const coolDownMs = wasProbing ? Math.min(this.maxCoolDownMs, (health.coolDownMs ?? this.coolDownMs) * 2) : this.coolDownMs;
+    this.update({ ...failure, state: "open", coolDownMs, retryAt: this.now() + coolDownMs });
+    this.options.events?.warn("llm.circuit.opened", {
+      provider: provider.name,
+      model: provider.model,
+      consecutiveFailures,
+      errorCode: error.code,
+      coolDownMs
+    });
+  }
+
+  private update(health: ProviderHealth): void {
+    this.records.set(healthKey(health.provider, health.model), health);
+  }
+}
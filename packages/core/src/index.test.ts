@@ -1,25 +1,48 @@
 import { describe, expect, it, vi } from "vitest";
 
-import { ProviderRouter } from "./index.js";
-import type { LLMProvider } from "@fusy/providers";
-import { ProviderError } from "@fusy/providers";
-
-const makeProvider = (name: "gemini" | "groq", overrides: Partial<LLMProvider> = {}): LLMProvider => ({
-  name,
-  model: `${name}-test`,
-  capabilities: {
-    streaming: true,
-    toolCalling: true,
-    structuredOutput: true,
-    maxContextTokens: name === "gemini" ? 1_000_000 : 128_000,
-    preferredForLowLatency: name === "groq",
-    preferredForLowCost: name === "gemini"
-  },
-  generate: vi.fn(async (prompt: string) => prompt),
-  stream: async function* stream() {},
-  toolCall: vi.fn(),
-  structuredOutput: vi.fn(),
-  ...overrides
+import { LatencyTracker, ProviderRouter, type RoutePlan } from "./index.js";
+import {
+  ProviderError,
+  ScriptedProvider,
+  TokenizerRegistry,
+  type ScriptedProviderOptions,
+  type ScriptedStep
+} from "@fusy/providers";
+
+const CONTEXT_TOKENS = { gemini: 1_000_000, groq: 128_000, anthropic: 200_000 } as const;
+
+const makeProvider = (
+  profile: "gemini" | "groq" | "anthropic",
+  steps: ScriptedStep[] = [],
+  overrides: ScriptedProviderOptions = {}
+): ScriptedProvider =>
+  new ScriptedProvider({
+    name: profile,
+    model: `${profile}-test`,
+    capabilities: {
+      maxContextTokens: CONTEXT_TOKENS[profile],
+      preferredForLowLatency: profile === "groq",
+      preferredForLowCost: profile === "gemini",
+      vision: profile !== "groq",
+      embeddings: profile === "gemini"
+    },
+    steps,
+    ...overrides
+  });
+
+// Answers only after `ms`, or fails with CANCELLED as soon as the router abandons the call.
+const slow = (provider: string, ms: number, step: ScriptedStep): ScriptedStep => (call) =>
+  new Promise((resolve) => {
+    const signal = call.options && "signal" in call.options ? call.options.signal : undefined;
+    const timer = setTimeout(() => resolve(step), ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve({ error: new ProviderError({ provider, code: "CANCELLED", message: "abandoned" }) });
+    });
+  });
+
+const fail = (provider: string, code: "TRANSIENT" | "RATE_LIMIT" | "TIMEOUT", message: string): ScriptedStep => ({
+  error: new ProviderError({ provider, code, message, retryable: true })
 });
 
 describe("provider router", () => {
@@ -29,19 +52,293 @@ describe("provider router", () => {
     expect(plan.primary.name).toBe("gemini");
   });
 
-  it("falls back on retryable errors", async () => {
-    const failing = makeProvider("groq", {
-      generate: vi.fn(async () => {
-        throw new ProviderError({ provider: "groq", code: "TRANSIENT", message: "fail", retryable: true });
-      })
+  it("treats maxContextTokens as a minimum and falls back only to vendors that fit", () => {
+    const router = new ProviderRouter([makeProvider("gemini"), makeProvider("groq"), makeProvider("anthropic")]);
+    const plan = router.plan({ taskType: "reasoning", budget: "high", requiredCapabilities: { maxContextTokens: 200_000 } });
+
+    expect(plan.primary.name).toBe("gemini");
+    expect(plan.fallback.map((provider) => provider.name)).toEqual(["anthropic", "gemini"]);
+    expect(router.plan({ taskType: "reasoning", budget: "high", requiredCapabilities: { maxContextTokens: 500_000 } })).toMatchObject({
+      primary: { name: "gemini" },
+      fallback: [{ name: "gemini" }]
     });
-    const succeeding = makeProvider("gemini", { generate: vi.fn(async () => "ok") });
+  });
+
+  it("keeps providers without a required capability out of the derived fallback", () => {
+    const router = new ProviderRouter([
+      makeProvider("gemini"),
+      makeProvider("groq", [], { capabilities: { toolCalling: false, preferredForLowLatency: true } }),
+      makeProvider("anthropic")
+    ]);
+    const plan = router.plan({ taskType: "tooling", budget: "balanced", requiredCapabilities: { toolCalling: true } });
+
+    expect([plan.primary, ...plan.fallback].map((provider) => provider.name)).not.toContain("groq");
+  });
+
+  it("falls back on retryable errors", async () => {
+    const failing = makeProvider("groq", [fail("groq", "TRANSIENT", "fail")]);
+    const succeeding = makeProvider("gemini", [{ text: "ok" }]);
 
     const router = new ProviderRouter([failing, succeeding]);
     const output = await router.generateWithFallback({ taskType: "chat", budget: "balanced", prompt: "hello" });
 
     expect(output).toBe("ok");
-    expect(failing.generate).toHaveBeenCalledTimes(1);
-    expect(succeeding.generate).toHaveBeenCalledTimes(1);
+    expect(failing.prompts).toEqual(["hello"]);
+    expect(succeeding.prompts).toEqual(["hello"]);
+  });
+
+  it("derives fallbacks for providers registered under custom names", async () => {
+    const gateway = makeProvider("groq", [fail("internal-gateway", "TRANSIENT", "busy")], { name: "internal-gateway" });
+    const gemini = makeProvider("gemini", [{ text: "from gemini" }]);
+    const router = new ProviderRouter([gateway, gemini]);
+
+    const plan = router.plan({ taskType: "chat", budget: "balanced" });
+    expect(plan.primary.name).toBe("internal-gateway");
+    expect(plan.fallback.map((provider) => provider.name)).toEqual(["gemini", "internal-gateway"]);
+    await expect(router.generateWithFallback({ taskType: "chat", budget: "balanced", prompt: "hi" })).resolves.toBe(
+      "from gemini"
+    );
+  });
+
+  it("follows configured chains from a cheap model to a bigger one on the same vendor, then another vendor", async () => {
+    const small = makeProvider("groq", [fail("groq", "RATE_LIMIT", "slow down")], { model: "llama-3.1-8b-instant" });
+    const large = makeProvider("groq", [fail("groq", "TRANSIENT", "busy")], { model: "llama-3.3-70b-versatile" });
+    const gemini = makeProvider("gemini", [{ text: "from gemini" }]);
+    const anthropic = makeProvider("anthropic");
+    const router = new ProviderRouter([anthropic, gemini, large, small], {
+      fallbackChains: {
+        "chat:low": ["groq:llama-3.1-8b-instant", "groq:llama-3.3-70b-versatile", "gemini"],
+        "*:high": ["anthropic", "gemini"],
+        "*:*": ["gemini", "groq:llama-3.3-70b-versatile"]
+      }
+    });
+
+    await expect(router.generateWithFallback({ taskType: "chat", budget: "low", prompt: "hi" })).resolves.toBe("from gemini");
+    expect([small, large, gemini].map((provider) => provider.prompts)).toEqual([["hi"], ["hi"], ["hi"]]);
+
+    const names = (plan: RoutePlan) =>
+      [plan.primary, ...plan.fallback].map((provider) => `${provider.name}:${provider.model}`);
+    expect(names(router.plan({ taskType: "reasoning", budget: "high" }))).toEqual(["anthropic:anthropic-test", "gemini:gemini-test"]);
+    expect(names(router.plan({ taskType: "tooling", budget: "balanced" }))).toEqual([
+      "gemini:gemini-test",
+      "groq:llama-3.3-70b-versatile"
+    ]);
+    expect(names(router.plan({ taskType: "chat", budget: "high", requiredCapabilities: { embeddings: true } }))).toEqual([
+      "gemini:gemini-test"
+    ]);
+  });
+
+  it("rejects fallback chains that name unknown keys or providers when the router is built", () => {
+    const providers = [makeProvider("gemini"), makeProvider("groq", [], { model: "small" }), makeProvider("groq", [], { model: "large" })];
+
+    expect(() => new ProviderRouter(providers, { fallbackChains: { "chat:*": ["gemini", "groq:large"] } })).not.toThrow();
+    expect(
+      () =>
+        new ProviderRouter(providers, {
+          fallbackChains: { "chat:cheap": ["gemini"], "*:low": ["groq", "anthropic", "groq:medium"], "tooling:high": [] }
+        })
+    ).toThrow(
+      "Invalid fallback chains: chat:cheap is not a taskType:budget key (task types: chat, reasoning, tooling, structured; budgets: low, balanced, high; or *); " +
+        "*:low: groq has several models (small, large); name one as groq:<model>; *:low: anthropic is not a registered provider; " +
+        "*:low: groq:medium does not match a registered provider model; tooling:high has an empty chain"
+    );
+  });
+
+  it("routes image attachments to vision providers and keeps them out of the fallback chain", async () => {
+    const groq = makeProvider("groq");
+    const gemini = makeProvider("gemini", [fail("gemini", "RATE_LIMIT", "slow down")]);
+    const anthropic = makeProvider("anthropic", [{ text: "looks misaligned" }]);
+    const router = new ProviderRouter([groq, gemini, anthropic]);
+
+    expect(router.plan({ taskType: "chat", budget: "balanced" }).primary.name).toBe("groq");
+    await expect(
+      router.generateWithFallback(
+        { taskType: "chat", budget: "balanced", prompt: "what regressed?" },
+        { attachments: [{ mimeType: "image/png", path: "screenshot.png" }] }
+      )
+    ).resolves.toBe("looks misaligned");
+
+    expect(groq.calls).toHaveLength(0);
+    expect(gemini.calls).toHaveLength(1);
+    expect(anthropic.calls[0].options).toMatchObject({ attachments: [{ mimeType: "image/png", path: "screenshot.png" }] });
+    const plan = router.plan({ taskType: "chat", budget: "low", requiredCapabilities: { vision: true } });
+    expect(plan.fallback.map((provider) => provider.name)).toEqual(["anthropic", "gemini"]);
+  });
+
+  it("falls back past safety blocks unless configured to fail", async () => {
+    const blocked = makeProvider("groq", [
+      { text: "", finishReason: "content_filter", rawFinishReason: "content_filter" },
+      { text: "", finishReason: "content_filter", rawFinishReason: "content_filter" }
+    ]);
+    const fallback = makeProvider("gemini", [{ text: "safe answer" }]);
+    const request = { taskType: "chat" as const, budget: "balanced" as const, prompt: "hello" };
+
+    await expect(new ProviderRouter([blocked, fallback]).generateWithFallback(request)).resolves.toBe("safe answer");
+    await expect(
+      new ProviderRouter([blocked, fallback], { onContentFiltered: "fail" }).generateWithFallback(request)
+    ).rejects.toMatchObject({ code: "CONTENT_FILTERED" });
+    expect(fallback.calls).toHaveLength(1);
+    expect(blocked.remaining).toBe(0);
+  });
+
+  it("continues truncated text on the same provider, then falls back when continuations run out", async () => {
+    const truncated = (text: string): ScriptedStep => ({ text, finishReason: "length" });
+    const groq = makeProvider("groq", [
+      truncated("Once upon "),
+      { text: "a time." },
+      truncated("again "),
+      truncated("again "),
+      truncated("again ")
+    ]);
+    const gemini = makeProvider("gemini", [{ text: "fallback story" }]);
+    const request = { taskType: "chat" as const, budget: "balanced" as const, prompt: "tell a story" };
+
+    await expect(new ProviderRouter([groq, gemini]).generateWithFallback(request)).resolves.toBe("Once upon a time.");
+    expect(groq.prompts[1]).toContain("It ended here:\nOnce upon ");
+
+    const router = new ProviderRouter([groq, gemini], { maxContinuations: 1 });
+    await expect(router.generateWithFallback(request)).resolves.toBe("fallback story");
+    expect(groq.calls).toHaveLength(4);
+
+    await expect(
+      new ProviderRouter([groq, gemini], { onTruncated: "fail" }).generateWithFallback(request)
+    ).rejects.toMatchObject({ code: "OUTPUT_TRUNCATED", partialText: "again " });
+    expect(groq.remaining).toBe(0);
+  });
+
+  it("stops the fallback chain once the caller cancels", async () => {
+    const controller = new AbortController();
+    const failing = makeProvider("groq", [
+      () => {
+        controller.abort();
+        return fail("groq", "TIMEOUT", "aborted");
+      }
+    ]);
+    const fallback = makeProvider("gemini", [{ text: "ok" }]);
+
+    const router = new ProviderRouter([failing, fallback]);
+    await expect(
+      router.generateWithFallback({ taskType: "chat", budget: "balanced", prompt: "hello" }, { signal: controller.signal })
+    ).rejects.toMatchObject({ code: "CANCELLED", provider: "groq" });
+
+    expect(fallback.calls).toHaveLength(0);
+    expect(failing.calls[0]).toMatchObject({ prompt: "hello", options: { signal: controller.signal } });
+  });
+
+  it("fits prompts to each model's token budget and prices them before sending", async () => {
+    const groq = makeProvider("groq", [fail("groq", "TRANSIENT", "busy"), { text: "hello" }], {
+      capabilities: { maxContextTokens: 600, preferredForLowLatency: true }
+    });
+    const gemini = makeProvider("gemini", [fail("gemini", "RATE_LIMIT", "slow down"), { text: "reduced" }]);
+    const prompt = Array.from({ length: 400 }, (_, index) => `line ${index}`).join("\n");
+    const router = new ProviderRouter([groq, gemini], { reducedContextTokens: 200 });
+    const tokenizers = new TokenizerRegistry();
+
+    await expect(router.generateWithFallback({ taskType: "chat", budget: "low", prompt }, { maxTokens: 100 })).resolves.toBe(
+      "reduced"
+    );
+    const [sentToGroq] = groq.prompts;
+    const [firstToGemini, retryToGemini] = gemini.prompts;
+    expect(firstToGemini).toBe(prompt);
+    expect(sentToGroq).toContain("[context trimmed to fit]");
+    expect(tokenizers.get("groq", "groq-test").count(sentToGroq)).toBeLessThanOrEqual(500);
+    expect(sentToGroq.startsWith("line 0\nline 1\n")).toBe(true);
+    expect(sentToGroq.endsWith("line 399")).toBe(true);
+    expect(tokenizers.get("gemini", "gemini-test").count(retryToGemini)).toBeLessThanOrEqual(200);
+
+    await expect(router.generateWithFallback({ taskType: "chat", budget: "balanced", prompt: "hi" })).resolves.toBe("hello");
+    expect(groq.prompts[1]).toBe("hi");
+
+    // Any provider listed again in the plan retries with the reduced budget, not only Gemini.
+    const repeated = makeProvider("groq", [fail("groq", "TRANSIENT", "busy"), { text: "groq retry" }]);
+    const anthropic = makeProvider("anthropic", [fail("anthropic", "TRANSIENT", "busy")]);
+    const chained = new ProviderRouter([repeated, anthropic], {
+      reducedContextTokens: 200,
+      fallbackChains: { "*:*": ["groq", "anthropic", "groq"] }
+    });
+    await expect(chained.generateWithFallback({ taskType: "chat", budget: "low", prompt })).resolves.toBe("groq retry");
+    expect(repeated.prompts[0]).toBe(prompt);
+    expect(tokenizers.get("groq", "groq-test").count(repeated.prompts[1])).toBeLessThanOrEqual(200);
+
+    const priced = makeProvider("groq", [], { model: "llama-3.3-70b-versatile" });
+    expect(router.estimateCost(priced, "The quick brown fox jumps over the lazy dog.", 1_000_000)).toBeCloseTo(0.7900059, 7);
+  });
+
+  it("records priced usage for every routed call on the usage sink", async () => {
+    const provider = makeProvider("groq", [{ text: "ok", usage: { inputTokens: 1_000_000, outputTokens: 1_000_000 } }], {
+      model: "llama-3.3-70b-versatile"
+    });
+    const usageSink = { usage: vi.fn() };
+    const callerListener = vi.fn();
+
+    const router = new ProviderRouter([provider], { usageSink });
+    await router.generateWithFallback({ taskType: "chat", budget: "balanced", prompt: "hi" }, { onResponse: callerListener });
+
+    expect(callerListener).toHaveBeenCalledTimes(1);
+    expect(usageSink.usage).toHaveBeenCalledWith(
+      "llm.usage",
+      { tokensIn: 1_000_000, tokensOut: 1_000_000, costUsd: 1.38 },
+      expect.objectContaining({ provider: "groq", taskType: "chat", budget: "balanced" })
+    );
+  });
+
+  it("hedges a slow primary with the best fallback and cancels the loser, recording both costs", async () => {
+    const groq = makeProvider("groq", [slow("groq", 5_000, { text: "late groq" })], { model: "llama-3.3-70b-versatile" });
+    const gemini = makeProvider("gemini", [{ text: "quick gemini", usage: { inputTokens: 10, outputTokens: 5 } }]);
+    const usageSink = { usage: vi.fn() };
+    const latency = new LatencyTracker({ minSamples: 1 });
+    const router = new ProviderRouter([groq, gemini], { usageSink, latency });
+    const request = { taskType: "chat" as const, budget: "balanced" as const, maxLatencyMs: 1_000, prompt: "hello there", hedgeAfterMs: 10 };
+
+    await expect(router.generateWithFallback(request)).resolves.toBe("quick gemini");
+    expect(gemini.calls).toHaveLength(1);
+    expect(usageSink.usage).toHaveBeenCalledWith(
+      "llm.usage",
+      expect.objectContaining({ tokensIn: 10, tokensOut: 5 }),
+      expect.objectContaining({ provider: "gemini", hedged: true })
+    );
+    expect(usageSink.usage).toHaveBeenCalledWith(
+      "llm.usage",
+      expect.objectContaining({ tokensIn: 2, tokensOut: 0 }),
+      expect.objectContaining({ provider: "groq", hedgeCancelled: true, estimated: true })
+    );
+    expect(router.health.get(groq).consecutiveFailures).toBe(0);
+    expect(latency.stats(gemini)).toMatchObject({ samples: 1 });
+    expect(latency.stats(groq)).toBeUndefined();
+  });
+
+  it("records a cancelled hedge loser only when it already ran past its p95", async () => {
+    const hedgedCall = async (groqSampleMs: number) => {
+      const groq = makeProvider("groq", [slow("groq", 5_000, { text: "late groq" })]);
+      const gemini = makeProvider("gemini", [{ text: "quick gemini" }]);
+      const latency = new LatencyTracker({ minSamples: 1 });
+      [1, 2, 3].forEach(() => latency.record(groq, groqSampleMs));
+      const router = new ProviderRouter([groq, gemini], { latency });
+      const request = { taskType: "chat" as const, budget: "balanced" as const, maxLatencyMs: 1_000, prompt: "hi", hedgeAfterMs: 10 };
+      await expect(router.generateWithFallback(request)).resolves.toBe("quick gemini");
+      return latency.stats(groq);
+    };
+
+    // Cancelled after ~10ms, well inside the usual 500ms: the percentiles stay as they were.
+    await expect(hedgedCall(500)).resolves.toMatchObject({ samples: 3, p50Ms: 500, p95Ms: 500 });
+    // Already slower than every sample, so the cut-short time is still a useful lower bound.
+    const lowerBound = await hedgedCall(1);
+    expect(lowerBound?.samples).toBe(4);
+    expect(lowerBound?.p95Ms).toBeGreaterThanOrEqual(10);
+  });
+
+  it("sends no hedge when the primary settles before the delay", async () => {
+    const groq = makeProvider("groq", [{ output: { answer: "groq" } }, fail("groq", "TRANSIENT", "busy")]);
+    const gemini = makeProvider("gemini", [{ output: { answer: "gemini" } }]);
+    const router = new ProviderRouter([groq, gemini]);
+    const request = { taskType: "chat" as const, budget: "balanced" as const, maxLatencyMs: 1_000, hedgeAfterMs: 1_000 };
+    const structured = { prompt: "answer", schema: { type: "object" } };
+
+    await expect(router.structuredOutputWithFallback(request, structured)).resolves.toEqual({ answer: "groq" });
+    expect(gemini.calls).toHaveLength(0);
+
+    await expect(router.structuredOutputWithFallback(request, structured)).resolves.toEqual({ answer: "gemini" });
+    expect(gemini.calls).toHaveLength(1);
+    expect(groq.calls).toHaveLength(2);
   });
 });
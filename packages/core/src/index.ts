@@ -1,12 +1,23 @@
 import {
+  createUsageListener,
+  type LLMAttachment,
   type LLMCapabilities,
   type LLMGenerateOptions,
   type LLMProvider,
+  type LLMResponseListener,
+  type LLMResponseMetadata,
   type LLMStructuredOutputRequest,
   type LLMToolCallRequest,
   type LLMToolCallResult,
-  ProviderError
+  PricingRegistry,
+  ProviderError,
+  TokenizerRegistry,
+  truncateToTokens,
+  type UsageSink
 } from "@fusy/providers";
+import { HealthTracker, type ProviderHealth } from "./health.js";
+import { LatencyTracker, type LatencyStats } from "./latency.js";
+import type { SpendingGuard } from "./spending.js";
 
 export interface AgentState {
   id: string;
@@ -18,8 +29,18 @@ export const createInitialState = (id: string): AgentState => ({
   status: "idle"
 });
 
-export type TaskType = "chat" | "reasoning" | "tooling" | "structured";
-export type Budget = "low" | "balanced" | "high";
+export const TASK_TYPES = ["chat", "reasoning", "tooling", "structured"] as const;
+export type TaskType = (typeof TASK_TYPES)[number];
+
+export const BUDGETS = ["low", "balanced", "high"] as const;
+export type Budget = (typeof BUDGETS)[number];
+
+/**
+ * Provider chains keyed by `taskType:budget`, where either part may be `*`. Entries name a
+ * provider (`gemini`) or one of its models (`groq:llama-3.1-8b-instant`); the first entry that
+ * meets the request's capabilities is the primary and the rest are tried in order.
+ */
+export type FallbackChainTable = Readonly<Record<string, readonly string[]>>;
 
 export interface RouteRequest {
   readonly taskType: TaskType;
@@ -27,6 +48,12 @@ export interface RouteRequest {
   readonly maxLatencyMs?: number;
   readonly requiredCapabilities?: Partial<LLMCapabilities>;
   readonly prompt?: string;
+  /**
+   * Also sends the request to the best fallback when the primary has not answered after this many
+   * milliseconds; the first success wins. Honoured by `generateWithFallback` and
+   * `structuredOutputWithFallback`.
+   */
+  readonly hedgeAfterMs?: number;
 }
 
 export interface RoutePlan {
@@ -34,6 +61,35 @@ export interface RoutePlan {
   readonly fallback: readonly LLMProvider[];
 }
 
+export interface ProviderRouterOptions {
+  /** Prices every call; defaults to the built-in pricing table. */
+  readonly pricing?: PricingRegistry;
+  /** Receives token and cost accounting for every provider call, e.g. a telemetry `Logger`. */
+  readonly usageSink?: UsageSink;
+  /** `fallback` (default) tries the next provider when a safety filter blocks the output; `fail` surfaces `CONTENT_FILTERED`. */
+  readonly onContentFiltered?: "fallback" | "fail";
+  /**
+   * `continue` (default) asks the same provider to resume text cut off at the token limit, up to
+   * `maxContinuations` times; tool calls and structured output cannot be resumed and fall back instead.
+   * `fallback` moves straight to the next provider and `fail` surfaces `OUTPUT_TRUNCATED`.
+   */
+  readonly onTruncated?: "continue" | "fallback" | "fail";
+  /** Defaults to 2. */
+  readonly maxContinuations?: number;
+  /** Counts prompt tokens per model; defaults to the built-in estimators. */
+  readonly tokenizers?: TokenizerRegistry;
+  /** Prompt budget for the reduced-context retry; defaults to 750 tokens. */
+  readonly reducedContextTokens?: number;
+  /** Replaces the derived fallback order for matching requests; validated when the router is built. */
+  readonly fallbackChains?: FallbackChainTable;
+  /** Circuit breaker shared by every routed call; defaults to a `HealthTracker` with default thresholds. */
+  readonly health?: HealthTracker;
+  /** Records routed call latency and enforces `maxLatencyMs`; pass one with a `store` to keep samples across runs. */
+  readonly latency?: LatencyTracker;
+  /** Session, day and project spending ceilings; without one the router never refuses on cost. */
+  readonly spending?: SpendingGuard;
+}
+
 export const WORKFLOW_STATES = [
   "INTENT_PARSE",
   "PLAN",
@@ -77,6 +133,7 @@ export interface ToolCallRequest {
 
 export interface ToolCallContext {
   cwd: string;
+  signal?: AbortSignal;
   policy?: {
     allowList?: readonly string[];
     denyList?: readonly string[];
@@ -105,18 +162,169 @@ const isCapabilityMatch = (
 
   return Object.entries(requiredCapabilities).every(([key, expected]) => {
     const actual = provider.capabilities[key as keyof LLMCapabilities];
+    // Numeric capabilities such as `maxContextTokens` are minimums.
+    if (typeof expected === "number") {
+      return typeof actual === "number" && actual >= expected;
+    }
+
     return expected === undefined || actual === expected;
   });
 };
 
-const scoreProvider = (provider: LLMProvider, request: RouteRequest): number => {
+/** Routes image attachments to vision-capable providers unless the caller already decided. */
+const withAttachmentRequirements = (request: RouteRequest, attachments?: readonly LLMAttachment[]): RouteRequest =>
+  attachments?.some((attachment) => attachment.mimeType.startsWith("image/")) &&
+  request.requiredCapabilities?.vision === undefined
+    ? { ...request, requiredCapabilities: { ...request.requiredCapabilities, vision: true } }
+    : request;
+
+const chainListeners = (
+  ...listeners: Array<LLMResponseListener | undefined>
+): LLMResponseListener | undefined => {
+  const active = listeners.filter((listener): listener is LLMResponseListener => listener !== undefined);
+  if (active.length === 0) {
+    return undefined;
+  }
+
+  return (response) => active.forEach((listener) => listener(response));
+};
+
+const toCancelledError = (provider: LLMProvider, signal: AbortSignal): ProviderError =>
+  new ProviderError({
+    provider: provider.name,
+    code: "CANCELLED",
+    message: "Routed request was cancelled",
+    retryable: false,
+    cause: signal.reason
+  });
+
+const toUnavailableError = (health: ProviderHealth): ProviderError =>
+  new ProviderError({
+    provider: health.provider,
+    code: "UNAVAILABLE",
+    message: `${health.provider} (${health.model}) skipped: circuit open after ${health.consecutiveFailures} consecutive failures`,
+    retryable: true
+  });
+
+/** Any failure of a routed attempt as a `ProviderError`; an aborted `signal` always reads as `CANCELLED`. */
+const toAttemptError = (provider: LLMProvider, error: unknown, signal: AbortSignal | undefined): ProviderError => {
+  if (signal?.aborted) {
+    return error instanceof ProviderError && error.code === "CANCELLED" ? error : toCancelledError(provider, signal);
+  }
+
+  return error instanceof ProviderError
+    ? error
+    : new ProviderError({
+        provider: provider.name,
+        code: "UNKNOWN",
+        message: error instanceof Error ? error.message : "Unknown routing error",
+        retryable: false,
+        cause: error
+      });
+};
+
+interface RouteAttempt {
+  readonly provider: LLMProvider;
+  readonly reducedContextRetry: boolean;
+}
+
+interface RoutedCall {
+  /** Prompt text used to estimate what the call will cost before it is sent. */
+  readonly prompt: string;
+  readonly maxOutputTokens?: number;
+  readonly signal?: AbortSignal;
+  readonly hedgeAfterMs?: number;
+}
+
+type RoutedOperation<T> = (
+  provider: LLMProvider,
+  isReducedContextRetry: boolean,
+  onResponse: LLMResponseListener | undefined,
+  signal: AbortSignal | undefined
+) => Promise<T>;
+
+/** `skipped` attempts were never sent, because of an open circuit or a spending ceiling. */
+type AttemptOutcome<T> = { ok: true; value: T } | { ok: false; skipped: boolean; error: ProviderError };
+
+const toContinuationPrompt = (prompt: string, partialText: string): string =>
+  [
+    prompt,
+    "",
+    "Your previous answer was cut off at the output limit. It ended here:",
+    partialText,
+    "",
+    "Continue exactly where it stopped. Do not repeat any earlier text."
+  ].join("\n");
+
+const isChainKeyPart = (part: string, values: readonly string[]): boolean => part === "*" || values.includes(part);
+
+const resolveChainEntry = (providers: readonly LLMProvider[], entry: string): LLMProvider | string => {
+  const separator = entry.indexOf(":");
+  if (separator !== -1) {
+    const name = entry.slice(0, separator);
+    const model = entry.slice(separator + 1);
+    return (
+      providers.find((provider) => provider.name === name && provider.model === model) ??
+      `${entry} does not match a registered provider model`
+    );
+  }
+
+  const matches = providers.filter((provider) => provider.name === entry);
+  if (matches.length === 1) {
+    return matches[0];
+  }
+
+  return matches.length === 0
+    ? `${entry} is not a registered provider`
+    : `${entry} has several models (${matches.map((provider) => provider.model).join(", ")}); name one as ${entry}:<model>`;
+};
+
+/** Resolves every chain up front so a typo fails router construction instead of a later request. */
+const resolveFallbackChains = (
+  providers: readonly LLMProvider[],
+  table: FallbackChainTable
+): Map<string, readonly LLMProvider[]> => {
+  const chains = new Map<string, readonly LLMProvider[]>();
+  const problems: string[] = [];
+
+  for (const [key, entries] of Object.entries(table)) {
+    const [taskType, budget, ...rest] = key.split(":");
+    if (rest.length > 0 || !isChainKeyPart(taskType, TASK_TYPES) || !isChainKeyPart(budget ?? "", BUDGETS)) {
+      problems.push(`${key} is not a taskType:budget key (task types: ${TASK_TYPES.join(", ")}; budgets: ${BUDGETS.join(", ")}; or *)`);
+      continue;
+    }
+
+    if (entries.length === 0) {
+      problems.push(`${key} has an empty chain`);
+      continue;
+    }
+
+    const resolved = entries.map((entry) => resolveChainEntry(providers, entry));
+    const errors = resolved.filter((item): item is string => typeof item === "string");
+    problems.push(...errors.map((error) => `${key}: ${error}`));
+    if (errors.length === 0) {
+      chains.set(key, resolved as LLMProvider[]);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid fallback chains: ${problems.join("; ")}`);
+  }
+
+  return chains;
+};
+
+const scoreProvider = (provider: LLMProvider, request: RouteRequest, latency?: LatencyStats): number => {
   let score = 0;
 
   if (request.budget === "low" && provider.capabilities.preferredForLowCost) {
     score += 4;
   }
 
-  if (
+  // Measured p95 replaces the static latency flag once a provider has enough recorded calls.
+  if (request.maxLatencyMs !== undefined && latency) {
+    score += latency.p95Ms <= request.maxLatencyMs ? 3 : 0;
+  } else if (
     (request.budget === "balanced" || request.maxLatencyMs !== undefined) &&
     provider.capabilities.preferredForLowLatency
   ) {
@@ -138,31 +346,69 @@ const scoreProvider = (provider: LLMProvider, request: RouteRequest): number =>
   return score;
 };
 
+const CONTEXT_TRIM_MARKER = "\n...[context trimmed to fit]...\n";
+
 export class ProviderRouter {
-  private readonly byName: Record<string, LLMProvider>;
+  private readonly pricing: PricingRegistry;
+  private readonly tokenizers: TokenizerRegistry;
+  private readonly fallbackChains: Map<string, readonly LLMProvider[]>;
+  /** Circuit state per provider model; log `health.snapshot()` or persist it across processes. */
+  readonly health: HealthTracker;
+  readonly latency: LatencyTracker;
+
+  constructor(
+    private readonly providers: readonly LLMProvider[],
+    private readonly options: ProviderRouterOptions = {}
+  ) {
+    this.pricing = options.pricing ?? new PricingRegistry();
+    this.tokenizers = options.tokenizers ?? new TokenizerRegistry();
+    this.fallbackChains = resolveFallbackChains(providers, options.fallbackChains ?? {});
+    this.health = options.health ?? new HealthTracker();
+    this.latency = options.latency ?? new LatencyTracker();
+  }
 
-  constructor(private readonly providers: readonly LLMProvider[]) {
-    this.byName = Object.fromEntries(providers.map((provider) => [provider.name, provider]));
+  /** Prices a call before it is sent, counting the prompt with the provider's tokenizer. */
+  estimateCost(provider: LLMProvider, prompt: string, expectedOutputTokens = 0): number {
+    const inputTokens = this.tokenizers.get(provider.name, provider.model).count(prompt);
+    return this.pricing.computeCost(provider.name, provider.model, { inputTokens, outputTokens: expectedOutputTokens });
   }
 
   plan(request: RouteRequest): RoutePlan {
-    const candidates = this.providers
-      .filter((provider) => isCapabilityMatch(provider, request.requiredCapabilities))
-      .sort((left, right) => scoreProvider(right, request) - scoreProvider(left, request));
+    const chain = this.chainFor(request);
+    if (chain) {
+      const [primary, ...fallback] = this.demote(
+        chain.filter((provider) => isCapabilityMatch(provider, request.requiredCapabilities)),
+        request
+      );
+      if (!primary) {
+        throw new Error("No providers match requested capabilities");
+      }
+
+      return { primary, fallback };
+    }
+
+    const score = (provider: LLMProvider): number => scoreProvider(provider, request, this.latency.stats(provider));
+    const candidates = this.demote(
+      this.providers
+        .filter((provider) => isCapabilityMatch(provider, request.requiredCapabilities))
+        .sort((left, right) => score(right) - score(left)),
+      request
+    );
 
     if (candidates.length === 0) {
       throw new Error("No providers match requested capabilities");
     }
 
     const primary = candidates[0];
-    const matrix: Record<string, readonly string[]> = {
-      gemini: ["groq", "gemini"],
-      groq: ["gemini", "groq"]
-    };
-
-    const fallback = (matrix[primary.name] ?? [])
-      .map((providerName) => this.byName[providerName])
-      .filter((provider): provider is LLMProvider => provider !== undefined);
+    // Every other registered provider in the order given, then the primary once more (the
+    // retry that may run with reduced context). Fallbacks may trade cost or latency, but never
+    // a required capability such as vision, tool calling or a minimum context size.
+    const fallback = this.demote(
+      [...this.providers.filter((provider) => provider !== primary), primary].filter((provider) =>
+        isCapabilityMatch(provider, request.requiredCapabilities)
+      ),
+      request
+    );
 
     return { primary, fallback };
   }
@@ -170,76 +416,385 @@ export class ProviderRouter {
   async generateWithFallback(request: RouteRequest, options?: LLMGenerateOptions): Promise<string> {
     const prompt = request.prompt ?? "";
     return this.executeWithFallback(
-      request,
-      (provider, isReducedContextRetry) =>
-        provider.generate(
-          isReducedContextRetry ? this.reducePromptContext(prompt) : prompt,
-          options
-        )
+      withAttachmentRequirements(request, options?.attachments),
+      (provider, isReducedContextRetry, onResponse, signal) =>
+        this.generateWithContinuations(
+          provider,
+          this.fitPromptContext(provider, prompt, isReducedContextRetry, options?.maxTokens),
+          { ...options, signal, onResponse: chainListeners(options?.onResponse, onResponse) }
+        ),
+      { prompt, maxOutputTokens: options?.maxTokens, signal: options?.signal, hedgeAfterMs: request.hedgeAfterMs }
     );
   }
 
   async toolCallWithFallback(request: RouteRequest, toolRequest: LLMToolCallRequest): Promise<LLMToolCallResult> {
-    return this.executeWithFallback(request, (provider) => provider.toolCall(toolRequest));
+    return this.executeWithFallback(
+      request,
+      (provider, _, onResponse, signal) =>
+        provider.toolCall({ ...toolRequest, signal, onResponse: chainListeners(toolRequest.onResponse, onResponse) }),
+      {
+        prompt: toolRequest.prompt ?? (toolRequest.messages ?? []).map((message) => message.content).join("\n"),
+        signal: toolRequest.signal
+      }
+    );
   }
 
   async structuredOutputWithFallback<T>(
     request: RouteRequest,
     structuredRequest: LLMStructuredOutputRequest
   ): Promise<T> {
-    return this.executeWithFallback(request, (provider) => provider.structuredOutput<T>(structuredRequest));
+    return this.executeWithFallback(
+      withAttachmentRequirements(request, structuredRequest.attachments),
+      (provider, _, onResponse, signal) =>
+        provider.structuredOutput<T>({
+          ...structuredRequest,
+          signal,
+          onResponse: chainListeners(structuredRequest.onResponse, onResponse)
+        }),
+      { prompt: structuredRequest.prompt, signal: structuredRequest.signal, hedgeAfterMs: request.hedgeAfterMs }
+    );
+  }
+
+  /**
+   * Streams from the first provider in the plan that answers. Fallback only happens before the
+   * first chunk; once text has reached the caller a failure propagates. Time to the first chunk
+   * and to the end of the stream are recorded in `latency`.
+   */
+  async *streamWithFallback(request: RouteRequest, options?: LLMGenerateOptions): AsyncGenerator<string, void, undefined> {
+    const prompt = request.prompt ?? "";
+    const call: RoutedCall = { prompt, maxOutputTokens: options?.maxTokens, signal: options?.signal };
+    const spending = this.options.spending;
+    let lastError: ProviderError | undefined;
+
+    for (const attempt of this.attemptsFor(this.plan(withAttachmentRequirements(request, options?.attachments)))) {
+      const { provider } = attempt;
+      if (options?.signal?.aborted) {
+        throw toCancelledError(provider, options.signal);
+      }
+
+      const exceeded = spending?.findExceeded(this.estimateSpend(provider, call));
+      if (spending && exceeded) {
+        const error = spending.toError(exceeded, provider);
+        if (spending.onLimit === "refuse") {
+          throw error;
+        }
+
+        lastError ??= error;
+        continue;
+      }
+
+      if (!this.health.tryAcquire(provider)) {
+        lastError ??= toUnavailableError(this.health.get(provider));
+        continue;
+      }
+
+      let started = false;
+      try {
+        const fitted = this.fitPromptContext(provider, prompt, attempt.reducedContextRetry, options?.maxTokens);
+        const stream = provider.stream(fitted, {
+          ...options,
+          onResponse: chainListeners(options?.onResponse, this.usageListener(request))
+        });
+        for await (const chunk of this.latency.trackStream(provider, stream)) {
+          if (!started) {
+            started = true;
+            this.health.recordSuccess(provider);
+          }
+          yield chunk;
+        }
+
+        if (!started) {
+          this.health.recordSuccess(provider);
+        }
+        return;
+      } catch (error) {
+        const normalized = toAttemptError(provider, error, options?.signal);
+        this.health.recordFailure(provider, normalized);
+        if (started || options?.signal?.aborted || !this.shouldFallBack(normalized)) {
+          throw normalized;
+        }
+
+        lastError = normalized;
+      }
+    }
+
+    throw lastError;
   }
 
   private async executeWithFallback<T>(
     request: RouteRequest,
-    operation: (provider: LLMProvider, isReducedContextRetry: boolean) => Promise<T>
+    operation: RoutedOperation<T>,
+    call: RoutedCall
   ): Promise<T> {
-    const plan = this.plan(request);
-    const attempts: Array<{ provider: LLMProvider; reducedContextRetry: boolean }> = [
-      { provider: plan.primary, reducedContextRetry: false }
-    ];
-
-    for (const provider of plan.fallback) {
-      const reducedContextRetry = provider.name === "gemini" && attempts.length > 1;
-      attempts.push({ provider, reducedContextRetry });
+    const attempts = this.attemptsFor(this.plan(request));
+    const spending = this.options.spending;
+    const listenerFor = (meta?: Record<string, unknown>) => this.usageListener(request, meta);
+    const run = (attempt: RouteAttempt, signal: AbortSignal | undefined, meta?: Record<string, unknown>) =>
+      this.runAttempt(attempt, operation, call, listenerFor(meta), signal);
+
+    let lastError: ProviderError | undefined;
+    for (let index = 0; index < attempts.length; index += 1) {
+      const attempt = attempts[index];
+      // A cancelled request never moves on to the next provider in the chain.
+      if (call.signal?.aborted) {
+        throw toCancelledError(attempt.provider, call.signal);
+      }
+
+      const hedge =
+        index === 0 && call.hedgeAfterMs !== undefined
+          ? attempts.find((candidate) => candidate.provider !== attempt.provider)
+          : undefined;
+      let outcome: AttemptOutcome<T>;
+      if (hedge) {
+        const hedged = await this.runHedged(attempt, hedge, call, run, (loser, elapsedMs) => {
+          // A cancelled call only shows a lower bound on its latency: count it when that bound is already
+          // slower than the p95, so hedging cannot drag a provider's percentiles down.
+          const p95Ms = this.latency.stats(loser.provider)?.p95Ms;
+          if (p95Ms !== undefined && elapsedMs > p95Ms) {
+            this.latency.record(loser.provider, elapsedMs);
+          }
+          listenerFor({ hedgeCancelled: true, estimated: true })?.(this.estimateCancelledResponse(loser.provider, call));
+        });
+        outcome = hedged.outcome;
+        // A hedge that was sent has had its turn, so it is not tried again as the next fallback.
+        if (hedged.hedged) {
+          attempts.splice(attempts.indexOf(hedge), 1);
+        }
+      } else {
+        outcome = await run(attempt, call.signal);
+      }
+
+      if (outcome.ok) {
+        return outcome.value;
+      }
+
+      if (call.signal?.aborted || (outcome.error.code === "BUDGET_EXCEEDED" && spending?.onLimit === "refuse")) {
+        throw outcome.error;
+      }
+
+      // Skipping an open circuit or an over-budget provider keeps a real failure from an earlier
+      // attempt as the error to report.
+      if (outcome.skipped) {
+        lastError ??= outcome.error;
+        continue;
+      }
+
+      lastError = outcome.error;
+      if (!this.shouldFallBack(outcome.error)) {
+        break;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /** One provider call, with its budget check, circuit breaker and latency bookkeeping; never throws. */
+  private async runAttempt<T>(
+    attempt: RouteAttempt,
+    operation: RoutedOperation<T>,
+    call: RoutedCall,
+    onResponse: LLMResponseListener | undefined,
+    signal: AbortSignal | undefined
+  ): Promise<AttemptOutcome<T>> {
+    // Checked per attempt, so `downgrade` can move on to a cheaper provider that still fits.
+    const spending = this.options.spending;
+    const exceeded = spending?.findExceeded(this.estimateSpend(attempt.provider, call));
+    if (spending && exceeded) {
+      return { ok: false, skipped: true, error: spending.toError(exceeded, attempt.provider) };
+    }
+
+    // Skipping an open circuit saves paying the provider's full timeout again.
+    if (!this.health.tryAcquire(attempt.provider)) {
+      return { ok: false, skipped: true, error: toUnavailableError(this.health.get(attempt.provider)) };
+    }
+
+    try {
+      const value = await this.latency.measure(attempt.provider, () =>
+        operation(attempt.provider, attempt.reducedContextRetry, onResponse, signal)
+      );
+      this.health.recordSuccess(attempt.provider);
+      return { ok: true, value };
+    } catch (error) {
+      const normalized = toAttemptError(attempt.provider, error, signal);
+      this.health.recordFailure(attempt.provider, normalized);
+      return { ok: false, skipped: false, error: normalized };
     }
+  }
+
+  /** The plan in call order; a provider listed again retries with the reduced-context budget. */
+  private attemptsFor(plan: RoutePlan): RouteAttempt[] {
+    const seen = new Set<LLMProvider>();
+    return [plan.primary, ...plan.fallback].map((provider) => {
+      const reducedContextRetry = seen.has(provider);
+      seen.add(provider);
+      return { provider, reducedContextRetry };
+    });
+  }
+
+  /** Reports usage to `usageSink` and charges it to the spending guard, whichever are configured. */
+  private usageListener(request: RouteRequest, meta: Record<string, unknown> = {}): LLMResponseListener | undefined {
+    const spending = this.options.spending;
+    return chainListeners(
+      this.options.usageSink
+        ? createUsageListener(this.pricing, this.options.usageSink, { taskType: request.taskType, budget: request.budget, ...meta })
+        : undefined,
+      spending ? (response) => spending.record(response, this.pricing.computeResponseCost(response)) : undefined
+    );
+  }
+
+  /**
+   * Runs `primary`, and `hedge` as well once `primary` has not answered within `hedgeAfterMs`.
+   * The first success wins and the call still in flight is cancelled and passed to `onCancelled`
+   * with the time it had been running.
+   * When `primary` settles before the delay the hedge is never sent and `hedged` is false.
+   */
+  private async runHedged<T>(
+    primary: RouteAttempt,
+    hedge: RouteAttempt,
+    call: RoutedCall,
+    run: (attempt: RouteAttempt, signal: AbortSignal | undefined, meta?: Record<string, unknown>) => Promise<AttemptOutcome<T>>,
+    onCancelled: (attempt: RouteAttempt, elapsedMs: number) => void
+  ): Promise<{ outcome: AttemptOutcome<T>; hedged: boolean }> {
+    const controller = new AbortController();
+    const signal = call.signal ? AbortSignal.any([controller.signal, call.signal]) : controller.signal;
+    const inFlight = new Map<RouteAttempt, () => number>();
+    const start = (attempt: RouteAttempt, meta?: Record<string, unknown>): Promise<AttemptOutcome<T>> => {
+      inFlight.set(attempt, this.latency.startTimer());
+      return run(attempt, signal, meta).finally(() => inFlight.delete(attempt));
+    };
+
+    const primaryRun = start(primary);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const early = await Promise.race([
+      primaryRun,
+      new Promise<undefined>((resolve) => {
+        timer = setTimeout(() => resolve(undefined), call.hedgeAfterMs);
+      })
+    ]);
+    clearTimeout(timer);
+    if (early) {
+      return { outcome: early, hedged: false };
+    }
+
+    const runs = [primaryRun, start(hedge, { hedged: true })];
+    const outcome = await new Promise<AttemptOutcome<T>>((resolve) => {
+      let settled = 0;
+      let failed: AttemptOutcome<T> | undefined;
+      for (const attemptRun of runs) {
+        void attemptRun.then((next) => {
+          settled += 1;
+          // Like the fallback loop, a real failure outranks a skipped attempt.
+          failed = next.ok || (next.skipped && failed) ? failed : next;
+          if (next.ok || settled === runs.length) {
+            resolve(next.ok ? next : (failed ?? next));
+          }
+        });
+      }
+    });
+
+    const losers = [...inFlight].map(([attempt, elapsed]) => [attempt, elapsed()] as const);
+    controller.abort();
+    losers.forEach(([attempt, elapsedMs]) => onCancelled(attempt, elapsedMs));
+    return { outcome, hedged: true };
+  }
+
+  /**
+   * Moves providers measured slower than `maxLatencyMs` (p95) behind the rest, and providers with
+   * an open circuit behind those, keeping the order within each group.
+   */
+  private demote(providers: readonly LLMProvider[], request: RouteRequest): LLMProvider[] {
+    const rank = (provider: LLMProvider): number => {
+      const p95Ms = this.latency.stats(provider)?.p95Ms;
+      const tooSlow = request.maxLatencyMs !== undefined && p95Ms !== undefined && p95Ms > request.maxLatencyMs;
+      return (this.health.isAvailable(provider) ? 0 : 2) + (tooSlow ? 1 : 0);
+    };
+
+    return [...providers].sort((left, right) => rank(left) - rank(right));
+  }
 
-    let lastError: unknown;
+  /** Looks up `taskType:budget`, then `taskType:*`, `*:budget` and `*:*`. */
+  private chainFor(request: RouteRequest): readonly LLMProvider[] | undefined {
+    return [
+      `${request.taskType}:${request.budget}`,
+      `${request.taskType}:*`,
+      `*:${request.budget}`,
+      "*:*"
+    ]
+      .map((key) => this.fallbackChains.get(key))
+      .find((chain) => chain !== undefined);
+  }
 
-    for (const attempt of attempts) {
+  private shouldFallBack(error: ProviderError): boolean {
+    if (error.code === "CONTENT_FILTERED") {
+      return (this.options.onContentFiltered ?? "fallback") === "fallback";
+    }
+
+    if (error.code === "OUTPUT_TRUNCATED") {
+      return (this.options.onTruncated ?? "continue") !== "fail";
+    }
+
+    return error.retryable;
+  }
+
+  /** Stitches truncated text together by asking the provider to pick up where it stopped. */
+  private async generateWithContinuations(
+    provider: LLMProvider,
+    prompt: string,
+    options: LLMGenerateOptions
+  ): Promise<string> {
+    const policy = this.options.onTruncated ?? "continue";
+    const maxContinuations = policy === "continue" ? (this.options.maxContinuations ?? 2) : 0;
+    let text = "";
+
+    for (let continuation = 0; ; continuation += 1) {
       try {
-        return await operation(attempt.provider, attempt.reducedContextRetry);
+        const next = await provider.generate(text ? toContinuationPrompt(prompt, text) : prompt, options);
+        return `${text}${next}`;
       } catch (error) {
-        const normalized =
-          error instanceof ProviderError
-            ? error
-            : new ProviderError({
-                provider: attempt.provider.name,
-                code: "UNKNOWN",
-                message: error instanceof Error ? error.message : "Unknown routing error",
-                retryable: false,
-                cause: error
-              });
-
-        lastError = normalized;
-        if (!normalized.retryable) {
-          break;
+        if (!(error instanceof ProviderError) || error.code !== "OUTPUT_TRUNCATED" || continuation >= maxContinuations) {
+          throw error;
         }
+
+        text += error.partialText ?? "";
       }
     }
+  }
 
-    throw lastError;
+  /** What a call would cost and how many tokens it would use, checked against spending ceilings before it is sent. */
+  private estimateSpend(provider: LLMProvider, call: RoutedCall): { costUsd: number; tokens: number } {
+    const outputTokens = call.maxOutputTokens ?? 0;
+    return {
+      costUsd: this.estimateCost(provider, call.prompt, outputTokens),
+      tokens: this.tokenizers.get(provider.name, provider.model).count(call.prompt) + outputTokens
+    };
+  }
+
+  /** A cancelled call reports no usage, so its prompt is counted as what the provider most likely billed. */
+  private estimateCancelledResponse(provider: LLMProvider, call: RoutedCall): LLMResponseMetadata {
+    return {
+      provider: provider.name,
+      model: provider.model,
+      usage: { inputTokens: this.tokenizers.get(provider.name, provider.model).count(call.prompt), outputTokens: 0 },
+      finishReason: "other"
+    };
   }
 
-  private reducePromptContext(prompt: string): string {
-    const maxLength = 3_000;
-    if (prompt.length <= maxLength) {
+  /**
+   * Trims the middle of prompts that would overflow the provider's context window after reserving
+   * `maxTokens` for output, or the reduced-context budget on a retry; most prompts pass unchanged.
+   */
+  private fitPromptContext(provider: LLMProvider, prompt: string, reduced: boolean, maxTokens = 0): string {
+    const tokenizer = this.tokenizers.get(provider.name, provider.model);
+    const windowTokens = Math.max(0, provider.capabilities.maxContextTokens - maxTokens);
+    const budget = reduced ? Math.min(this.options.reducedContextTokens ?? 750, windowTokens) : windowTokens;
+    if (tokenizer.count(prompt) <= budget) {
       return prompt;
     }
 
-    const head = prompt.slice(0, Math.floor(maxLength * 0.6));
-    const tail = prompt.slice(-Math.floor(maxLength * 0.4));
-    return `${head}\n...[context trimmed for retry]...\n${tail}`;
+    const available = Math.max(0, budget - tokenizer.count(CONTEXT_TRIM_MARKER));
+    const head = truncateToTokens(tokenizer, prompt, Math.floor(available * 0.6));
+    const tail = truncateToTokens(tokenizer, prompt, Math.floor(available * 0.4), "end");
+    return `${head}${CONTEXT_TRIM_MARKER}${tail}`;
   }
 }
 
@@ -340,3 +895,7 @@ export class WorkflowStateMachine {
 }
 
 export * from "./context.js";
+export * from "./embeddings.js";
+export * from "./health.js";
+export * from "./latency.js";
+export * from "./spending.js";
@@ -0,0 +1,137 @@
+import { ProviderError, ScriptedProvider } from "@fusy/providers";
+import { describe, expect, it } from "vitest";
+
+import { LatencyTracker, ProviderRouter, type LatencySample, type LatencyStore } from "./index.js";
+
+const makeStore = (samples: LatencySample[] = []): LatencyStore & { samples: LatencySample[] } => ({
+  samples,
+  getLatencySamples(limitPerModel) {
+    return this.samples.slice(-limitPerModel);
+  },
+  addLatencySample(sample) {
+    this.samples.push(sample);
+  }
+});
+
+describe("latency tracker", () => {
+  it("reports rolling percentiles and time to first token once enough calls were recorded", async () => {
+    let now = 0;
+    const store = makeStore();
+    const tracker = new LatencyTracker({ windowSize: 4, minSamples: 3, store, now: () => now });
+    const groq = { name: "groq", model: "llama" };
+
+    tracker.record(groq, 5_000);
+    tracker.record(groq, 100);
+    expect(tracker.stats(groq)).toBeUndefined();
+
+    async function* chunks(): AsyncGenerator<string> {
+      now += 40;
+      yield "a";
+      now += 200;
+      yield "b";
+    }
+    const streamed: string[] = [];
+    for await (const chunk of tracker.trackStream(groq, chunks())) {
+      streamed.push(chunk);
+    }
+    tracker.record(groq, 300);
+    tracker.record(groq, 200);
+
+    expect(streamed).toEqual(["a", "b"]);
+    expect(tracker.stats(groq)).toEqual({
+      provider: "groq",
+      model: "llama",
+      samples: 4,
+      p50Ms: 200,
+      p95Ms: 300,
+      ttftP50Ms: 40,
+      ttftP95Ms: 40
+    });
+    expect(store.samples).toHaveLength(5);
+    expect(new LatencyTracker({ windowSize: 4, minSamples: 3, store }).stats(groq)).toMatchObject({ p50Ms: 200, samples: 4 });
+  });
+
+  it("routes around providers whose measured p95 misses maxLatencyMs", async () => {
+    let now = 0;
+    const latency = new LatencyTracker({ minSamples: 2, now: () => now });
+    const groq = new ScriptedProvider({
+      name: "groq",
+      capabilities: { preferredForLowLatency: true },
+      steps: [{ text: "fast groq" }]
+    });
+    const gemini = new ScriptedProvider({
+      name: "gemini",
+      steps: [
+        () => {
+          now += 400;
+          return { text: "gemini" };
+        }
+      ]
+    });
+    const router = new ProviderRouter([groq, gemini], { latency });
+    const interactive = { taskType: "chat" as const, budget: "balanced" as const, maxLatencyMs: 1_000, prompt: "hi" };
+
+    expect(router.plan(interactive).primary.name).toBe("groq");
+    await expect(router.generateWithFallback(interactive)).resolves.toBe("fast groq");
+    latency.record(groq, 2_500);
+    latency.record(groq, 3_000);
+    latency.record(gemini, 600);
+
+    const plan = router.plan(interactive);
+    expect([plan.primary, ...plan.fallback].map((provider) => provider.name)).toEqual(["gemini", "gemini", "groq"]);
+    await expect(router.generateWithFallback(interactive)).resolves.toBe("gemini");
+    expect(latency.stats(gemini)).toMatchObject({ samples: 2, p50Ms: 400, p95Ms: 600 });
+    expect(router.plan({ ...interactive, maxLatencyMs: undefined }).primary.name).toBe("groq");
+  });
+
+  it("records time to first token for routed streams and falls back only before the first chunk", async () => {
+    let now = 0;
+    const latency = new LatencyTracker({ minSamples: 1, now: () => now });
+    const busy = new ProviderError({ provider: "groq", code: "TRANSIENT", message: "busy", retryable: true });
+    const groq = new ScriptedProvider({ name: "groq", steps: [{ error: busy }] });
+    const gemini = new ScriptedProvider({
+      name: "gemini",
+      steps: [
+        () => {
+          now += 40;
+          return { chunks: ["a", "b"] };
+        }
+      ]
+    });
+    const router = new ProviderRouter([groq, gemini], { latency, fallbackChains: { "*:*": ["groq", "gemini"] } });
+    const request = { taskType: "chat" as const, budget: "balanced" as const, prompt: "hi" };
+
+    const streamed: string[] = [];
+    for await (const chunk of router.streamWithFallback(request)) {
+      streamed.push(chunk);
+      now += 100;
+    }
+
+    expect(streamed).toEqual(["a", "b"]);
+    expect(latency.stats(gemini)).toMatchObject({ samples: 1, p50Ms: 240, ttftP50Ms: 40, ttftP95Ms: 40 });
+    expect(latency.stats(groq)).toBeUndefined();
+    expect(router.health.get(groq).consecutiveFailures).toBe(1);
+  });
+
+  it("does not fall back once a routed stream has produced text", async () => {
+    const failing: AsyncGenerator<string, void, undefined> = (async function* () {
+      yield "partial";
+      throw new ProviderError({ provider: "groq", code: "NETWORK", message: "reset", retryable: true });
+    })();
+    const groq = new ScriptedProvider({ name: "groq" });
+    groq.stream = () => failing;
+    const gemini = new ScriptedProvider({ name: "gemini", steps: [{ chunks: ["unused"] }] });
+    const router = new ProviderRouter([groq, gemini], { fallbackChains: { "*:*": ["groq", "gemini"] } });
+
+    const streamed: string[] = [];
+    await expect(
+      (async () => {
+        for await (const chunk of router.streamWithFallback({ taskType: "chat", budget: "balanced", prompt: "hi" })) {
+          streamed.push(chunk);
+        }
+      })()
+    ).rejects.toMatchObject({ code: "NETWORK" });
+    expect(streamed).toEqual(["partial"]);
+    expect(gemini.calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,140 @@
+import type { LLMProvider, ProviderName } from "@fusy/providers";
+
+export interface LatencySample {
+  readonly provider: ProviderName;
+  readonly model: string;
+  /** Request start to the complete response. */
+  readonly totalMs: number;
+  /** Request start to the first streamed chunk; only streamed calls have one. */
+  readonly ttftMs?: number;
+  readonly recordedAt: number;
+}
+
+export interface LatencyStats {
+  readonly provider: ProviderName;
+  readonly model: string;
+  readonly samples: number;
+  readonly p50Ms: number;
+  readonly p95Ms: number;
+  readonly ttftP50Ms?: number;
+  readonly ttftP95Ms?: number;
+}
+
+/**
+ * Persists latency samples across runs. `SqliteMemoryStore` from `@fusy/memory` satisfies this
+ * structurally.
+ */
+export interface LatencyStore {
+  /** The most recent samples of every provider model, at most `limitPerModel` each. */
+  getLatencySamples(limitPerModel: number): LatencySample[];
+  addLatencySample(sample: LatencySample): void;
+}
+
+export interface LatencyTrackerOptions {
+  /** Samples kept per provider model; defaults to 50. */
+  readonly windowSize?: number;
+  /** Samples needed before stats are reported and used for routing; defaults to 5. */
+  readonly minSamples?: number;
+  readonly store?: LatencyStore;
+  readonly now?: () => number;
+}
+
+const latencyKey = (provider: ProviderName, model: string): string => `${provider}:${model}`;
+
+/** Nearest-rank percentile of an ascending list. */
+const percentile = (sorted: readonly number[], fraction: number): number =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(fraction * sorted.length) - 1))];
+
+/** Rolling latency and time-to-first-token percentiles per provider model, loaded from and saved to `store`. */
+export class LatencyTracker {
+  private readonly windows = new Map<string, LatencySample[]>();
+  private readonly windowSize: number;
+  private readonly minSamples: number;
+  private readonly now: () => number;
+
+  constructor(private readonly options: LatencyTrackerOptions = {}) {
+    this.windowSize = options.windowSize ?? 50;
+    this.minSamples = options.minSamples ?? 5;
+    this.now = options.now ?? Date.now;
+    [...(options.store?.getLatencySamples(this.windowSize) ?? [])]
+      .sort((left, right) => left.recordedAt - right.recordedAt)
+      .forEach((sample) => this.remember(sample));
+  }
+
+  record(provider: Pick<LLMProvider, "name" | "model">, totalMs: number, ttftMs?: number): void {
+    const sample: LatencySample = { provider: provider.name, model: provider.model, totalMs, ttftMs, recordedAt: this.now() };
+    this.remember(sample);
+    this.options.store?.addLatencySample(sample);
+  }
+
+  /** Times `call` and records it when it succeeds; failures are the health tracker's concern. */
+  async measure<T>(provider: Pick<LLMProvider, "name" | "model">, call: () => Promise<T>): Promise<T> {
+    const startedAt = this.now();
+    const result = await call();
+    this.record(provider, this.now() - startedAt);
+    return result;
+  }
+
+  /** Passes `stream` through, recording time to its first chunk and to its end. */
+  async *trackStream(
+    provider: Pick<LLMProvider, "name" | "model">,
+    stream: AsyncIterable<string>
+  ): AsyncGenerator<string, void, undefined> {
+    const startedAt = this.now();
+    let ttftMs: number | undefined;
+    for await (const chunk of stream) {
+      ttftMs ??= this.now() - startedAt;
+      yield chunk;
+    }
+
+    this.record(provider, this.now() - startedAt, ttftMs);
+  }
+
+  /** Starts a clock on this tracker's time source; calling the result returns the milliseconds elapsed. */
+  startTimer(): () => number {
+    const startedAt = this.now();
+    return () => this.now() - startedAt;
+  }
+
+  /** Percentiles over the current window, or `undefined` until `minSamples` calls were recorded. */
+  stats(provider: Pick<LLMProvider, "name" | "model">): LatencyStats | undefined {
+    const window = this.windows.get(latencyKey(provider.name, provider.model)) ?? [];
+    if (window.length < this.minSamples) {
+      return undefined;
+    }
+
+    const totals = window.map((sample) => sample.totalMs).sort((left, right) => left - right);
+    const ttfts = window
+      .flatMap((sample) => (sample.ttftMs === undefined ? [] : [sample.ttftMs]))
+      .sort((left, right) => left - right);
+
+    return {
+      provider: provider.name,
+      model: provider.model,
+      samples: window.length,
+      p50Ms: percentile(totals, 0.5),
+      p95Ms: percentile(totals, 0.95),
+      ttftP50Ms: ttfts.length > 0 ? percentile(ttfts, 0.5) : undefined,
+      ttftP95Ms: ttfts.length > 0 ? percentile(ttfts, 0.95) : undefined
+    };
+  }
+
+  /** Stats for every provider model with enough samples, for logs. */
+  snapshot(): LatencyStats[] {
+    return [...this.windows.values()].flatMap((window) => {
+      const stats = this.stats({ name: window[0].provider, model: window[0].model });
+      return stats ? [stats] : [];
+    });
+  }
+
+  private remember(sample: LatencySample): void {
+    const key = latencyKey(sample.provider, sample.model);
+    const window = this.windows.get(key) ?? [];
+    window.push(sample);
+    if (window.length > this.windowSize) {
+      window.shift();
+    }
+
+    this.windows.set(key, window);
+  }
+}
@@ -0,0 +1,65 @@
+import { PricingRegistry, ScriptedProvider } from "@fusy/providers";
+import { describe, expect, it, vi } from "vitest";
+
+import { InMemorySpendingStore, ProviderRouter, SpendingGuard } from "./index.js";
+
+const usage = { inputTokens: 1_000_000, outputTokens: 0 };
+
+const pricing = new PricingRegistry({
+  "gemini:gemini-scripted": { inputPerMillionUsd: 1, outputPerMillionUsd: 1 },
+  "groq:groq-scripted": { inputPerMillionUsd: 0, outputPerMillionUsd: 0 }
+});
+
+describe("spending guard", () => {
+  it("warns near a ceiling and refuses calls once it is reached", async () => {
+    const events = { warn: vi.fn() };
+    const spending = new SpendingGuard({ limits: { session: { maxUsd: 2.5 } }, sessionId: "s1", events });
+    const gemini = new ScriptedProvider({
+      name: "gemini",
+      steps: [{ text: "one", usage }, { text: "two", usage }, { text: "three", usage }]
+    });
+    const router = new ProviderRouter([gemini], { pricing, spending });
+    const request = { taskType: "chat" as const, budget: "balanced" as const, prompt: "hi" };
+
+    await expect(router.generateWithFallback(request)).resolves.toBe("one");
+    expect(events.warn).not.toHaveBeenCalled();
+    await expect(router.generateWithFallback(request)).resolves.toBe("two");
+    expect(events.warn).toHaveBeenCalledWith(
+      "llm.spending.threshold",
+      expect.objectContaining({ scope: "session", spentUsd: 2, maxUsd: 2.5 })
+    );
+
+    await expect(router.generateWithFallback(request, { maxTokens: 600_000 })).rejects.toMatchObject({
+      code: "BUDGET_EXCEEDED",
+      provider: "gemini"
+    });
+    expect(gemini.calls).toHaveLength(2);
+    expect(router.health.get(gemini).consecutiveFailures).toBe(0);
+  });
+
+  it("downgrades to a provider that still fits and keeps day and project totals in the store", async () => {
+    const store = new InMemorySpendingStore();
+    const spending = new SpendingGuard({
+      limits: { day: { maxUsd: 1 }, project: { maxTokens: 5_000_000 } },
+      projectId: "fusy",
+      onLimit: "downgrade",
+      store,
+      now: () => 0
+    });
+    const gemini = new ScriptedProvider({ name: "gemini", steps: [{ text: "gemini", usage }] });
+    const groq = new ScriptedProvider({ name: "groq", steps: [{ text: "groq", usage }] });
+    const router = new ProviderRouter([gemini, groq], { pricing, spending, fallbackChains: { "*:*": ["gemini", "groq"] } });
+    const request = { taskType: "chat" as const, budget: "balanced" as const, prompt: "hi" };
+
+    await expect(router.generateWithFallback(request)).resolves.toBe("gemini");
+    await expect(router.generateWithFallback(request)).resolves.toBe("groq");
+    expect(gemini.calls).toHaveLength(1);
+    expect(spending.status()).toEqual([
+      { scope: "day", limit: { maxUsd: 1 }, costUsd: 1, tokens: 2_000_000 },
+      { scope: "project", limit: { maxTokens: 5_000_000 }, costUsd: 1, tokens: 2_000_000 }
+    ]);
+
+    const nextDay = new SpendingGuard({ limits: { day: { maxUsd: 1 } }, store, now: () => 24 * 60 * 60 * 1000 });
+    expect(nextDay.findExceeded({ costUsd: 0.5, tokens: 0 })).toBeUndefined();
+  });
+});
@@ -0,0 +1,185 @@
+import { ProviderError, type LLMProvider, type LLMResponseMetadata } from "@fusy/providers";
+import type { SpendRecord } from "@fusy/shared";
+
+/** `day` covers every session and project since midnight UTC; `project` is all-time spend of one project. */
+export type SpendingScope = "session" | "day" | "project";
+
+export interface SpendingLimit {
+  readonly maxUsd?: number;
+  /** Input plus output tokens. */
+  readonly maxTokens?: number;
+  /** Fraction of a ceiling that triggers a warning; defaults to 0.8. */
+  readonly warnAt?: number;
+}
+
+export type SpendingLimits = Partial<Record<SpendingScope, SpendingLimit>>;
+
+export type { SpendRecord };
+
+export interface SpendTotals {
+  readonly costUsd: number;
+  readonly tokens: number;
+}
+
+export interface SpendFilter {
+  readonly sessionId?: string;
+  readonly projectId?: string;
+  /** Only records at or after this timestamp. */
+  readonly since?: number;
+}
+
+/** Ledger of provider spend. `SqliteMemoryStore` from `@fusy/memory` satisfies this structurally. */
+export interface SpendingStore {
+  addSpend(record: SpendRecord): void;
+  getSpendTotals(filter: SpendFilter): SpendTotals;
+}
+
+export class InMemorySpendingStore implements SpendingStore {
+  private readonly records: SpendRecord[] = [];
+
+  addSpend(record: SpendRecord): void {
+    this.records.push(record);
+  }
+
+  getSpendTotals(filter: SpendFilter): SpendTotals {
+    return this.records
+      .filter(
+        (record) =>
+          (filter.sessionId === undefined || record.sessionId === filter.sessionId) &&
+          (filter.projectId === undefined || record.projectId === filter.projectId) &&
+          (filter.since === undefined || record.recordedAt >= filter.since)
+      )
+      .reduce(
+        (totals, record) => ({
+          costUsd: totals.costUsd + record.costUsd,
+          tokens: totals.tokens + record.tokensIn + record.tokensOut
+        }),
+        { costUsd: 0, tokens: 0 }
+      );
+  }
+}
+
+/** Structural match for `Logger.warn` from `@fusy/telemetry`. */
+export interface SpendingEventSink {
+  warn(message: string, meta?: Record<string, unknown>): void;
+}
+
+export interface SpendingGuardOptions {
+  readonly limits: SpendingLimits;
+  /** Defaults to an in-process ledger; pass a `SqliteMemoryStore` so ceilings hold across runs. */
+  readonly store?: SpendingStore;
+  /** Required for the `session` ceiling. */
+  readonly sessionId?: string;
+  /** Required for the `project` ceiling. */
+  readonly projectId?: string;
+  /**
+   * `refuse` (default) fails a call that would pass a ceiling with `BUDGET_EXCEEDED`; `downgrade`
+   * skips to later providers in the chain whose estimated cost still fits.
+   */
+  readonly onLimit?: "refuse" | "downgrade";
+  readonly events?: SpendingEventSink;
+  readonly now?: () => number;
+}
+
+export interface SpendingStatus extends SpendTotals {
+  readonly scope: SpendingScope;
+  readonly limit: SpendingLimit;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SCOPES: readonly SpendingScope[] = ["session", "day", "project"];
+
+/** Checks estimated calls against session, day and project ceilings and records what calls actually cost. */
+export class SpendingGuard {
+  readonly onLimit: "refuse" | "downgrade";
+  private readonly store: SpendingStore;
+  private readonly now: () => number;
+  private readonly warned = new Set<string>();
+
+  constructor(private readonly options: SpendingGuardOptions) {
+    this.onLimit = options.onLimit ?? "refuse";
+    this.store = options.store ?? new InMemorySpendingStore();
+    this.now = options.now ?? Date.now;
+  }
+
+  /** Spend so far under every configured ceiling. */
+  status(): SpendingStatus[] {
+    return SCOPES.flatMap((scope) => {
+      const limit = this.options.limits[scope];
+      const filter = this.filterFor(scope);
+      return limit && filter ? [{ scope, limit, ...this.store.getSpendTotals(filter) }] : [];
+    });
+  }
+
+  /** The first ceiling that `estimate` would pass, if any; a call estimated to be free passes none. */
+  findExceeded(estimate: SpendTotals): SpendingStatus | undefined {
+    const passes = (spent: number, added: number, max: number | undefined): boolean =>
+      max !== undefined && added > 0 && spent + added > max;
+
+    return this.status().find(
+      (status) =>
+        passes(status.costUsd, estimate.costUsd, status.limit.maxUsd) ||
+        passes(status.tokens, estimate.tokens, status.limit.maxTokens)
+    );
+  }
+
+  toError(status: SpendingStatus, provider: LLMProvider): ProviderError {
+    const ceiling = [
+      status.limit.maxUsd === undefined ? undefined : `$${status.costUsd.toFixed(4)} of $${status.limit.maxUsd}`,
+      status.limit.maxTokens === undefined ? undefined : `${status.tokens} of ${status.limit.maxTokens} tokens`
+    ]
+      .filter(Boolean)
+      .join(", ");
+
+    return new ProviderError({
+      provider: provider.name,
+      code: "BUDGET_EXCEEDED",
+      message: `${provider.name} (${provider.model}) call refused: ${status.scope} spending ceiling reached (${ceiling} spent)`,
+      retryable: false
+    });
+  }
+
+  record(response: LLMResponseMetadata, costUsd: number): void {
+    this.store.addSpend({
+      sessionId: this.options.sessionId,
+      projectId: this.options.projectId,
+      provider: response.provider,
+      model: response.model,
+      tokensIn: response.usage.inputTokens,
+      tokensOut: response.usage.outputTokens,
+      costUsd,
+      recordedAt: this.now()
+    });
+    this.warnNearCeilings();
+  }
+
+  private warnNearCeilings(): void {
+    for (const status of this.status()) {
+      const warnAt = status.limit.warnAt ?? 0.8;
+      const usedUsd = status.limit.maxUsd ? status.costUsd / status.limit.maxUsd : 0;
+      const usedTokens = status.limit.maxTokens ? status.tokens / status.limit.maxTokens : 0;
+      // Warn once per ceiling and day, so a long session is not flooded with repeats.
+      const key = `${status.scope}:${Math.floor(this.now() / DAY_MS)}`;
+      if (Math.max(usedUsd, usedTokens) >= warnAt && !this.warned.has(key)) {
+        this.warned.add(key);
+        this.options.events?.warn("llm.spending.threshold", {
+          scope: status.scope,
+          spentUsd: status.costUsd,
+          spentTokens: status.tokens,
+          maxUsd: status.limit.maxUsd,
+          maxTokens: status.limit.maxTokens
+        });
+      }
+    }
+  }
+
+  private filterFor(scope: SpendingScope): SpendFilter | undefined {
+    if (scope === "day") {
+      return { since: Math.floor(this.now() / DAY_MS) * DAY_MS };
+    }
+
+    const id = scope === "session" ? this.options.sessionId : this.options.projectId;
+    return id === undefined ? undefined : scope === "session" ? { sessionId: id } : { projectId: id };
+  }
+}
@@ -0,0 +1,85 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { SqliteMemoryStore } from "./index.js";
+
+describe("SqliteMemoryStore", () => {
+  let dir: string;
+  let store: SqliteMemoryStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "fusy-memory-"));
+    store = new SqliteMemoryStore({ dbPath: path.join(dir, "memory.sqlite") });
+  });
+
+  afterEach(() => {
+    store.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("returns the newest latency samples of each model, oldest first, and prunes past the cap", () => {
+    const sample = (provider: string, model: string, totalMs: number, recordedAt: number, ttftMs?: number) => ({
+      provider,
+      model,
+      totalMs,
+      ttftMs,
+      recordedAt
+    });
+
+    store.addLatencySample(sample("groq", "llama", 300, 3), 2);
+    store.addLatencySample(sample("groq", "llama", 100, 1), 2);
+    store.addLatencySample(sample("gemini", "flash", 800, 2), 2);
+    store.addLatencySample(sample("groq", "llama", 400, 4, 120), 2);
+
+    expect(store.getLatencySamples(10)).toEqual([
+      sample("gemini", "flash", 800, 2),
+      sample("groq", "llama", 300, 3),
+      sample("groq", "llama", 400, 4, 120)
+    ]);
+    expect(store.getLatencySamples(1)).toEqual([sample("gemini", "flash", 800, 2), sample("groq", "llama", 400, 4, 120)]);
+  });
+
+  it("sums spend by session, project and start time", () => {
+    const spend = (sessionId: string | undefined, projectId: string | undefined, costUsd: number, recordedAt: number) => ({
+      sessionId,
+      projectId,
+      provider: "gemini",
+      model: "flash",
+      tokensIn: 100,
+      tokensOut: 50,
+      costUsd,
+      recordedAt
+    });
+
+    store.addSpend(spend("s1", "fusy", 0.25, 1_000));
+    store.addSpend(spend("s2", "fusy", 0.5, 2_000));
+    store.addSpend(spend(undefined, "other", 1, 3_000));
+
+    expect(store.getSpendTotals({})).toEqual({ costUsd: 1.75, tokens: 450 });
+    expect(store.getSpendTotals({ sessionId: "s1" })).toEqual({ costUsd: 0.25, tokens: 150 });
+    expect(store.getSpendTotals({ projectId: "fusy" })).toEqual({ costUsd: 0.75, tokens: 300 });
+    expect(store.getSpendTotals({ since: 2_000 })).toEqual({ costUsd: 1.5, tokens: 300 });
+    expect(store.getSpendTotals({ projectId: "fusy", since: 2_000 })).toEqual({ costUsd: 0.5, tokens: 150 });
+    expect(store.getSpendTotals({ sessionId: "missing" })).toEqual({ costUsd: 0, tokens: 0 });
+  });
+
+  it("round-trips embedding vectors as float32 per namespace and overwrites on conflict", () => {
+    store.setEmbeddings("gemini:embedding-001", new Map([["a", [0.5, -0.25]], ["b", [1, 0]]]));
+    store.setEmbeddings("gemini:embedding-001", new Map([["b", [0, 1]]]));
+    store.setEmbeddings("groq:other", new Map([["a", [9, 9]]]));
+
+    expect(store.getEmbeddings("gemini:embedding-001", ["a", "b", "missing"])).toEqual(
+      new Map([
+        ["a", [0.5, -0.25]],
+        ["b", [0, 1]]
+      ])
+    );
+    expect(store.getEmbeddings("groq:other", ["a", "b"])).toEqual(new Map([["a", [9, 9]]]));
+
+    store.setEmbeddings("gemini:embedding-001", new Map([["c", [0.1]]]));
+    expect(store.getEmbeddings("gemini:embedding-001", ["c"]).get("c")?.[0]).toBeCloseTo(0.1, 6);
+  });
+});
@@ -3,6 +3,8 @@ import { mkdirSync } from "node:fs";
 import path from "node:path";
 import { DatabaseSync } from "node:sqlite";
 
+import type { SpendRecord } from "@fusy/shared";
+
 export interface SessionRecord {
   id: string;
   status: "active" | "paused" | "completed";
@@ -21,6 +23,14 @@ export interface MemoryRecord {
   updatedAt: number;
 }
 
+export interface LatencySampleRecord {
+  provider: string;
+  model: string;
+  totalMs: number;
+  ttftMs?: number;
+  recordedAt: number;
+}
+
 export interface MemoryStoreOptions {
   dbPath?: string;
   encryptionKey?: string;
@@ -141,6 +151,39 @@ export class SqliteMemoryStore {
         updated_at INTEGER NOT NULL,
         PRIMARY KEY (project_id, mem_key)
       );
+
+      CREATE TABLE IF NOT EXISTS embeddings (
+        namespace TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        vector BLOB NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (namespace, content_hash)
+      );
+
+      CREATE TABLE IF NOT EXISTS latency_samples (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        total_ms REAL NOT NULL,
+        ttft_ms REAL,
+        recorded_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS latency_samples_by_model ON latency_samples (provider, model, recorded_at);
+
+      CREATE TABLE IF NOT EXISTS spend_ledger (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT,
+        project_id TEXT,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        tokens_in INTEGER NOT NULL,
+        tokens_out INTEGER NOT NULL,
+        cost_usd REAL NOT NULL,
+        recorded_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS spend_ledger_by_time ON spend_ledger (recorded_at);
     `);
   }
 
@@ -275,6 +318,111 @@ export class SqliteMemoryStore {
     }));
   }
 
+  /** Vectors are stored as float32, keyed by embedding namespace (provider and model) and content hash. */
+  getEmbeddings(namespace: string, contentHashes: readonly string[]): Map<string, number[]> {
+    const statement = this.db.prepare("SELECT vector FROM embeddings WHERE namespace = ? AND content_hash = ?");
+    const found = new Map<string, number[]>();
+
+    for (const hash of contentHashes) {
+      const row = statement.get(namespace, hash) as { vector: Uint8Array } | undefined;
+      if (row) {
+        found.set(hash, [...new Float32Array(row.vector.buffer, row.vector.byteOffset, row.vector.byteLength / 4)]);
+      }
+    }
+
+    return found;
+  }
+
+  setEmbeddings(namespace: string, vectors: ReadonlyMap<string, readonly number[]>): void {
+    const statement = this.db.prepare(
+      `INSERT INTO embeddings (namespace, content_hash, vector, updated_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(namespace, content_hash) DO UPDATE SET
+         vector = excluded.vector,
+         updated_at = excluded.updated_at`
+    );
+    const now = Date.now();
+
+    vectors.forEach((vector, hash) => {
+      statement.run(namespace, hash, new Uint8Array(Float32Array.from(vector).buffer), now);
+    });
+  }
+
+  /** The most recent samples of every provider model, at most `limitPerModel` each. */
+  getLatencySamples(limitPerModel: number): LatencySampleRecord[] {
+    const rows = this.db
+      .prepare(
+        `SELECT provider, model, total_ms, ttft_ms, recorded_at FROM (
+           SELECT *, ROW_NUMBER() OVER (PARTITION BY provider, model ORDER BY recorded_at DESC, id DESC) AS recency
+           FROM latency_samples
+         )
+         WHERE recency <= ?
+         ORDER BY recorded_at ASC, id ASC`
+      )
+      .all(limitPerModel) as Array<Record<string, unknown>>;
+
+    return rows.map((row) => ({
+      provider: String(row.provider),
+      model: String(row.model),
+      totalMs: Number(row.total_ms),
+      ttftMs: row.ttft_ms === null ? undefined : Number(row.ttft_ms),
+      recordedAt: Number(row.recorded_at)
+    }));
+  }
+
+  /** Appends a sample and prunes the model's history to the newest `keepPerModel` rows. */
+  addLatencySample(sample: LatencySampleRecord, keepPerModel = 500): void {
+    this.db
+      .prepare("INSERT INTO latency_samples (provider, model, total_ms, ttft_ms, recorded_at) VALUES (?, ?, ?, ?, ?)")
+      .run(sample.provider, sample.model, sample.totalMs, sample.ttftMs ?? null, sample.recordedAt);
+    this.db
+      .prepare(
+        `DELETE FROM latency_samples
+         WHERE provider = ? AND model = ? AND id NOT IN (
+           SELECT id FROM latency_samples WHERE provider = ? AND model = ? ORDER BY recorded_at DESC, id DESC LIMIT ?
+         )`
+      )
+      .run(sample.provider, sample.model, sample.provider, sample.model, keepPerModel);
+  }
+
+  addSpend(record: SpendRecord): void {
+    this.db
+      .prepare(
+        `INSERT INTO spend_ledger (session_id, project_id, provider, model, tokens_in, tokens_out, cost_usd, recorded_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        record.sessionId ?? null,
+        record.projectId ?? null,
+        record.provider,
+        record.model,
+        record.tokensIn,
+        record.tokensOut,
+        record.costUsd,
+        record.recordedAt
+      );
+  }
+
+  /** Cost and input plus output tokens of the ledger rows matching every given filter. */
+  getSpendTotals(filter: { sessionId?: string; projectId?: string; since?: number }): { costUsd: number; tokens: number } {
+    const row = this.db
+      .prepare(
+        `SELECT COALESCE(SUM(cost_usd), 0) AS cost_usd, COALESCE(SUM(tokens_in + tokens_out), 0) AS tokens
+         FROM spend_ledger
+         WHERE (? IS NULL OR session_id = ?) AND (? IS NULL OR project_id = ?) AND (? IS NULL OR recorded_at >= ?)`
+      )
+      .get(
+        filter.sessionId ?? null,
+        filter.sessionId ?? null,
+        filter.projectId ?? null,
+        filter.projectId ?? null,
+        filter.since ?? null,
+        filter.since ?? null
+      ) as Record<string, unknown>;
+
+    return { costUsd: Number(row.cost_usd), tokens: Number(row.tokens) };
+  }
+
   clearMemory(projectId?: string): void {
     if (projectId) {
       this.db.prepare("DELETE FROM project_memory WHERE project_id = ?").run(projectId);
@@ -0,0 +1,111 @@
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CachedProvider, type LLMProvider } from "./index.js";
+
+const makeProvider = (): LLMProvider => ({
+  name: "groq",
+  model: "groq-test",
+  capabilities: {
+    toolCalling: true,
+    structuredOutput: true,
+    streaming: true,
+    maxContextTokens: 128_000,
+    preferredForLowLatency: true,
+    preferredForLowCost: false,
+    vision: false,
+    embeddings: false
+  },
+  generate: vi.fn(async (prompt: string) => `answer to ${prompt}`),
+  chat: vi.fn(),
+  stream: vi.fn(),
+  toolCall: vi.fn(),
+  structuredOutput: vi.fn(async () => [{ name: "alice" }]) as LLMProvider["structuredOutput"]
+});
+
+describe("CachedProvider", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "fusy-cache-"));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("serves repeated calls from disk and reports hits and misses", async () => {
+    const provider = makeProvider();
+    const events = { debug: vi.fn() };
+    const cached = new CachedProvider(provider, { dir, events });
+    const onResponse = vi.fn();
+
+    await expect(cached.generate("hello", { temperature: 0, timeoutMs: 1_000 })).resolves.toBe("answer to hello");
+    await expect(cached.generate("hello", { temperature: 0, timeoutMs: 5_000, onResponse })).resolves.toBe("answer to hello");
+    await cached.generate("hello", { temperature: 1 });
+
+    expect(provider.generate).toHaveBeenCalledTimes(2);
+    expect(onResponse).not.toHaveBeenCalled();
+    expect(events.debug.mock.calls.map(([message]) => message)).toEqual(["llm.cache.miss", "llm.cache.hit", "llm.cache.miss"]);
+    expect(events.debug.mock.calls[1][1]).toMatchObject({ operation: "generate", provider: "groq", model: "groq-test" });
+    expect(await readdir(dir)).toHaveLength(2);
+  });
+
+  it("keys structured output by schema", async () => {
+    const provider = makeProvider();
+    const cached = new CachedProvider(provider, { dir });
+    const request = { prompt: "list users", schema: { type: "array", items: { type: "object" } } };
+
+    await expect(cached.structuredOutput(request)).resolves.toEqual([{ name: "alice" }]);
+    await cached.structuredOutput({ ...request, schema: { items: { type: "object" }, type: "array" } });
+    await cached.structuredOutput({ ...request, schema: { type: "array" } });
+
+    expect(provider.structuredOutput).toHaveBeenCalledTimes(2);
+  });
+
+  it("expires entries after the TTL", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const provider = makeProvider();
+    const cached = new CachedProvider(provider, { dir, ttlMs: 60_000 });
+
+    await cached.generate("hello");
+    vi.setSystemTime(Date.now() + 30_000);
+    await cached.generate("hello");
+    vi.setSystemTime(Date.now() + 60_000);
+    await cached.generate("hello");
+
+    expect(provider.generate).toHaveBeenCalledTimes(2);
+  });
+
+  it("refreshes entries without reading them and bypasses the cache entirely", async () => {
+    const provider = makeProvider();
+    await new CachedProvider(provider, { dir }).generate("hello");
+
+    await new CachedProvider(provider, { dir, mode: "refresh" }).generate("hello");
+    expect(provider.generate).toHaveBeenCalledTimes(2);
+
+    await new CachedProvider(provider, { dir, mode: "bypass" }).generate("other");
+    expect(provider.generate).toHaveBeenCalledTimes(3);
+    expect(await readdir(dir)).toHaveLength(1);
+
+    await new CachedProvider(provider, { dir }).generate("hello");
+    expect(provider.generate).toHaveBeenCalledTimes(3);
+  });
+
+  it("keys attachments by file content rather than path", async () => {
+    const provider = makeProvider();
+    const cached = new CachedProvider(provider, { dir: path.join(dir, "cache") });
+    const screenshot = path.join(dir, "screenshot.png");
+    const options = { attachments: [{ mimeType: "image/png", path: screenshot }] };
+
+    await writeFile(screenshot, "before");
+    await cached.generate("what changed?", options);
+    await cached.generate("what changed?", options);
+    await writeFile(screenshot, "after");
+    await cached.generate("what changed?", options);
+
+    expect(provider.generate).toHaveBeenCalledTimes(2);
+  });
+});
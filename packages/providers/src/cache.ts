@@ -0,0 +1,196 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type {
+  LLMAttachment,
+  LLMCapabilities,
+  LLMGenerateOptions,
+  LLMMessage,
+  LLMProvider,
+  LLMResponse,
+  LLMStructuredOutputRequest,
+  LLMToolCallRequest,
+  LLMToolCallResult,
+  ProviderName
+} from "./index.js";
+
+/**
+ * `read-write` serves fresh entries and stores misses, `refresh` skips reads but stores the new
+ * responses, and `bypass` leaves the cache untouched.
+ */
+export type ResponseCacheMode = "read-write" | "refresh" | "bypass";
+
+export type CachedOperation = "generate" | "chat" | "toolCall" | "structuredOutput";
+
+/** Structural match for `Logger.debug` from `@fusy/telemetry`. */
+export interface CacheEventSink {
+  debug(message: string, meta?: Record<string, unknown>): void;
+}
+
+export interface ResponseCacheOptions {
+  /** Defaults to `.fusy/cache` under the working directory. */
+  readonly dir?: string;
+  readonly ttlMs?: number;
+  readonly mode?: ResponseCacheMode;
+  readonly events?: CacheEventSink;
+}
+
+interface CacheEntry {
+  readonly createdAt: number;
+  readonly operation: CachedOperation;
+  readonly provider: ProviderName;
+  readonly model: string;
+  readonly value: unknown;
+}
+
+export const DEFAULT_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Bump when the cached value shapes change so stale entries are never replayed.
+const CACHE_FORMAT_VERSION = 1;
+
+/** Serializes with sorted object keys so equivalent requests hash to the same key. */
+const stableStringify = (value: unknown): string =>
+  JSON.stringify(value, (_key, item: unknown) =>
+    item && typeof item === "object" && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([left], [right]) => left.localeCompare(right)))
+      : item
+  );
+
+// Listeners, timeouts and signals do not change what the model returns, so they stay out of the key.
+const KEY_EXCLUDED_OPTIONS = new Set(["timeoutMs", "onResponse", "signal"]);
+
+const toKeyOptions = (options?: object): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(options ?? {}).filter(([key]) => !KEY_EXCLUDED_OPTIONS.has(key)));
+
+/**
+ * Keys attachments by content so a screenshot rewritten at the same path is a miss. Unreadable
+ * files fall back to their path; the provider call then reports the error.
+ */
+const toKeyAttachments = async (
+  attachments?: readonly LLMAttachment[]
+): Promise<unknown[] | undefined> =>
+  attachments &&
+  Promise.all(
+    attachments.map(async ({ mimeType, data, path: filePath }) => {
+      try {
+        const bytes = data ?? (filePath === undefined ? new Uint8Array() : await readFile(filePath));
+        return { mimeType, sha256: createHash("sha256").update(bytes).digest("hex") };
+      } catch {
+        return { mimeType, path: filePath ?? "" };
+      }
+    })
+  );
+
+const toKeyMessages = (messages?: readonly LLMMessage[]): Promise<unknown[]> | undefined =>
+  messages &&
+  Promise.all(
+    messages.map(async (message) =>
+      message.attachments ? { ...message, attachments: await toKeyAttachments(message.attachments) } : message
+    )
+  );
+
+/**
+ * Wraps any provider with an on-disk response cache. Streams pass through uncached, and cache hits
+ * skip `onResponse` because no provider call (and no spend) happened.
+ */
+export class CachedProvider implements LLMProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  readonly capabilities: LLMCapabilities;
+  readonly embeddingModel?: string;
+  /** Passed through uncached; callers such as the embedding retriever keep their own vector store. */
+  readonly embed?: LLMProvider["embed"];
+  private readonly dir: string;
+  private readonly ttlMs: number;
+  private readonly mode: ResponseCacheMode;
+
+  constructor(
+    private readonly provider: LLMProvider,
+    private readonly options: ResponseCacheOptions = {}
+  ) {
+    this.name = provider.name;
+    this.model = provider.model;
+    this.capabilities = provider.capabilities;
+    this.embeddingModel = provider.embeddingModel;
+    this.embed = provider.embed?.bind(provider);
+    this.dir = options.dir ?? path.join(process.cwd(), ".fusy", "cache");
+    this.ttlMs = options.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+    this.mode = options.mode ?? "read-write";
+  }
+
+  async generate(prompt: string, options?: LLMGenerateOptions): Promise<string> {
+    const keyOptions = { ...toKeyOptions(options), attachments: await toKeyAttachments(options?.attachments) };
+    return this.cached("generate", { prompt, options: keyOptions }, () => this.provider.generate(prompt, options));
+  }
+
+  async chat(messages: readonly LLMMessage[], options?: LLMGenerateOptions): Promise<LLMResponse> {
+    const keyMessages = await toKeyMessages(messages);
+    return this.cached("chat", { messages: keyMessages, options: toKeyOptions(options) }, () =>
+      this.provider.chat(messages, options)
+    );
+  }
+
+  stream(prompt: string, options?: LLMGenerateOptions): AsyncGenerator<string, void, undefined> {
+    return this.provider.stream(prompt, options);
+  }
+
+  async toolCall(request: LLMToolCallRequest): Promise<LLMToolCallResult> {
+    const input = { ...toKeyOptions(request), messages: await toKeyMessages(request.messages) };
+    return this.cached("toolCall", input, () => this.provider.toolCall(request));
+  }
+
+  async structuredOutput<T>(request: LLMStructuredOutputRequest): Promise<T> {
+    const input = { ...toKeyOptions(request), attachments: await toKeyAttachments(request.attachments) };
+    return this.cached("structuredOutput", input, () => this.provider.structuredOutput<T>(request));
+  }
+
+  private async cached<T>(operation: CachedOperation, input: unknown, call: () => Promise<T>): Promise<T> {
+    if (this.mode === "bypass") {
+      return call();
+    }
+
+    const key = createHash("sha256")
+      .update(stableStringify({ version: CACHE_FORMAT_VERSION, operation, provider: this.name, model: this.model, input }))
+      .digest("hex");
+    const meta = { operation, provider: this.name, model: this.model, key };
+
+    if (this.mode === "read-write") {
+      const entry = await this.read(key);
+      if (entry) {
+        this.options.events?.debug("llm.cache.hit", { ...meta, ageMs: Date.now() - entry.createdAt });
+        return entry.value as T;
+      }
+    }
+
+    this.options.events?.debug("llm.cache.miss", { ...meta, mode: this.mode });
+    const value = await call();
+    await this.write(key, { createdAt: Date.now(), operation, provider: this.name, model: this.model, value });
+    return value;
+  }
+
+  private async read(key: string): Promise<CacheEntry | undefined> {
+    try {
+      const entry = JSON.parse(await readFile(this.entryPath(key), "utf8")) as CacheEntry;
+      return Date.now() - entry.createdAt <= this.ttlMs ? entry : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async write(key: string, entry: CacheEntry): Promise<void> {
+    const filePath = this.entryPath(key);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    try {
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(tempPath, JSON.stringify(entry), "utf8");
+      await rename(tempPath, filePath);
+    } catch (error) {
+      // A cache that cannot be written must never fail the call it was meant to speed up.
+      this.options.events?.debug("llm.cache.write_failed", { key, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+}
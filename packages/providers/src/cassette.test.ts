@@ -0,0 +1,124 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Cassette, GeminiProvider, GroqProvider } from "./index.js";
+
+const fixture = (name: string): string =>
+  fileURLToPath(new URL(`./__fixtures__/cassettes/${name}`, import.meta.url));
+
+describe("HTTP cassettes", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "fusy-cassette-"));
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("network disabled")));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("replays a recorded gemini exchange without network access", async () => {
+    process.env.GEMINI_API_KEY = "any-key";
+    const cassette = new Cassette({ mode: "replay", path: fixture("gemini-generate.json") });
+    const provider = new GeminiProvider("gemini-1.5-flash", { cassette });
+
+    const response = await provider.chat([{ role: "user", content: "Explain HTTP cassettes in one sentence." }]);
+
+    expect(response).toEqual({
+      provider: "gemini",
+      model: "gemini-1.5-flash-002",
+      usage: { inputTokens: 9, outputTokens: 7 },
+      finishReason: "stop",
+      rawFinishReason: "STOP",
+      text: "Cassettes replay recorded HTTP exchanges."
+    });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("replays groq JSON-mode structured output", async () => {
+    process.env.GROQ_API_KEY = "any-key";
+    const cassette = new Cassette({ mode: "replay", path: fixture("groq-structured-output.json") });
+    const provider = new GroqProvider("llama-3.3-70b-versatile", { cassette });
+
+    const result = await provider.structuredOutput({
+      prompt: "Describe the user alice",
+      schema: {
+        type: "object",
+        properties: { name: { type: "string" }, languages: { type: "array", items: { type: "string" } } },
+        required: ["name", "languages"]
+      }
+    });
+
+    expect(result).toEqual({ name: "alice", languages: ["typescript", "go"] });
+  });
+
+  it("records scrubbed exchanges and replays identical requests in order", async () => {
+    process.env.GEMINI_API_KEY = "super-secret";
+    const cassettePath = path.join(dir, "session.json");
+    const reply = (text: string) =>
+      new Response(JSON.stringify({ candidates: [{ content: { parts: [{ text }] }, finishReason: "STOP" }] }), {
+        status: 200,
+        headers: { "content-type": "application/json", "set-cookie": "session=abc" }
+      });
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValueOnce(reply("first")).mockResolvedValueOnce(reply("second")));
+
+    const recorder = new GeminiProvider("gemini-test", { cassette: new Cassette({ mode: "record", path: cassettePath }) });
+    await expect(recorder.generate("hello")).resolves.toBe("first");
+    await expect(recorder.generate("hello")).resolves.toBe("second");
+
+    const saved = await readFile(cassettePath, "utf8");
+    expect(saved).not.toContain("super-secret");
+    expect(saved).not.toContain("set-cookie");
+    expect(saved).toContain('"x-goog-api-key": "[REDACTED]"');
+
+    process.env.GEMINI_API_KEY = "another-key";
+    const player = new GeminiProvider("gemini-test", {
+      cassette: new Cassette({ mode: "replay", path: cassettePath }),
+      retry: { maxAttempts: 1 }
+    });
+    await expect(player.generate("hello")).resolves.toBe("first");
+    await expect(player.generate("hello")).resolves.toBe("second");
+    await expect(player.generate("hello")).rejects.toMatchObject({
+      provider: "gemini",
+      message: expect.stringContaining("No recorded interaction")
+    });
+  });
+
+  it("redacts keys sent under custom headers and caller headers wherever they appear", async () => {
+    process.env.GROQ_API_KEY = "custom-secret";
+    const cassettePath = path.join(dir, "gateway.json");
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ choices: [{ message: { content: "ok" }, finish_reason: "stop" }] }), { status: 200 })
+      )
+    );
+
+    const provider = new GroqProvider("llama-3.3-70b-versatile", {
+      cassette: new Cassette({ mode: "record", path: cassettePath }),
+      apiKeyPlacement: { in: "header", name: "x-gateway-token" },
+      headers: { "x-tenant-auth": "tenant-secret" }
+    });
+    await expect(provider.generate("echo custom-secret back")).resolves.toBe("ok");
+
+    const saved = await readFile(cassettePath, "utf8");
+    expect(saved).not.toContain("custom-secret");
+    expect(saved).not.toContain("tenant-secret");
+    expect(saved).toContain('"x-gateway-token": "[REDACTED]"');
+    expect(saved).toContain('"x-tenant-auth": "[REDACTED]"');
+    expect(saved).toContain("echo [REDACTED] back");
+  });
+
+  it("shares one cassette per path when configured from the environment", () => {
+    const env = { FUSY_CASSETTE_MODE: "replay", FUSY_CASSETTE_PATH: path.join(dir, "session.json") };
+
+    expect(Cassette.fromEnv({})).toBeUndefined();
+    expect(Cassette.fromEnv({ FUSY_CASSETTE_MODE: "off" })).toBeUndefined();
+    expect(Cassette.fromEnv(env)).toBe(Cassette.fromEnv(env));
+    expect(() => Cassette.fromEnv({ FUSY_CASSETTE_MODE: "rewind" })).toThrow(/FUSY_CASSETTE_MODE/);
+  });
+});
@@ -0,0 +1,178 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/** `record` calls the network and saves every exchange; `replay` serves saved exchanges without network access. */
+export type CassetteMode = "record" | "replay";
+
+export interface CassetteOptions {
+  readonly mode: CassetteMode;
+  readonly path: string;
+}
+
+export interface CassetteInteraction {
+  readonly request: {
+    readonly method: string;
+    readonly url: string;
+    readonly headers: Record<string, string>;
+    readonly body?: string;
+  };
+  readonly response: {
+    readonly status: number;
+    readonly headers: Record<string, string>;
+    readonly body: string;
+  };
+}
+
+/** Credentials of one request, known only to the provider that sends it. */
+export interface CassetteSecrets {
+  /** Redacted wherever they appear: header values, the URL and the body. */
+  readonly values?: readonly string[];
+  /** Headers whose values are always redacted, e.g. a custom API-key header or caller-supplied headers. */
+  readonly headers?: readonly string[];
+}
+
+interface CassetteFile {
+  readonly version: 1;
+  readonly interactions: CassetteInteraction[];
+}
+
+const REDACTED = "[REDACTED]";
+const SECRET_HEADERS = new Set(["authorization", "x-api-key", "x-goog-api-key", "api-key"]);
+const SECRET_QUERY_PARAMS = new Set(["key", "api_key", "apikey"]);
+const DROPPED_RESPONSE_HEADERS = new Set(["set-cookie", "content-encoding", "content-length", "transfer-encoding"]);
+
+const redactValues = (text: string, values: readonly string[]): string =>
+  values
+    .filter(Boolean)
+    .flatMap((value) => [value, encodeURIComponent(value)])
+    .reduce((redacted, value) => redacted.split(value).join(REDACTED), text);
+
+const scrubUrl = (url: string, secrets: CassetteSecrets): string => {
+  const parsed = new URL(url);
+  for (const name of [...parsed.searchParams.keys()]) {
+    if (SECRET_QUERY_PARAMS.has(name.toLowerCase())) {
+      parsed.searchParams.set(name, REDACTED);
+    }
+  }
+
+  return redactValues(parsed.toString(), secrets.values ?? []);
+};
+
+const scrubHeaders = (headers: RequestInit["headers"], secrets: CassetteSecrets): Record<string, string> => {
+  const secretHeaders = new Set([...SECRET_HEADERS, ...(secrets.headers ?? []).map((name) => name.toLowerCase())]);
+  return Object.fromEntries(
+    [...new Headers(headers).entries()].map(([name, value]) => [
+      name,
+      secretHeaders.has(name) ? REDACTED : redactValues(value, secrets.values ?? [])
+    ])
+  );
+};
+
+const toRequestBody = (body: RequestInit["body"], secrets: CassetteSecrets): string | undefined =>
+  typeof body === "string" ? redactValues(body, secrets.values ?? []) : undefined;
+
+const sharedCassettes = new Map<string, Cassette>();
+
+/**
+ * Captures provider HTTP exchanges to a JSON fixture and replays them deterministically.
+ * Credentials are scrubbed before anything touches disk, so replays match regardless of
+ * which key (if any) is configured. Recorded responses are buffered, including streams.
+ */
+export class Cassette {
+  private interactions: CassetteInteraction[] | undefined;
+  private readonly used = new Set<number>();
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: CassetteOptions) {}
+
+  /**
+   * Reads `FUSY_CASSETTE_MODE` and `FUSY_CASSETTE_PATH`; providers in one process share the
+   * cassette for a path so a whole session lands in a single file.
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): Cassette | undefined {
+    const mode = env.FUSY_CASSETTE_MODE;
+    if (!mode || mode === "off") {
+      return undefined;
+    }
+
+    if (mode !== "record" && mode !== "replay") {
+      throw new Error("FUSY_CASSETTE_MODE must be one of record, replay, off");
+    }
+
+    const filePath = path.resolve(env.FUSY_CASSETTE_PATH ?? path.join(".fusy", "cassettes", "session.json"));
+    const cacheKey = `${mode}:${filePath}`;
+    const cassette = sharedCassettes.get(cacheKey) ?? new Cassette({ mode, path: filePath });
+    sharedCassettes.set(cacheKey, cassette);
+    return cassette;
+  }
+
+  get mode(): CassetteMode {
+    return this.options.mode;
+  }
+
+  async fetch(url: string, init: RequestInit = {}, secrets: CassetteSecrets = {}): Promise<Response> {
+    const request = {
+      method: (init.method ?? "GET").toUpperCase(),
+      url: scrubUrl(url, secrets),
+      headers: scrubHeaders(init.headers, secrets),
+      body: toRequestBody(init.body, secrets)
+    };
+
+    if (this.options.mode === "replay") {
+      return this.replay(request);
+    }
+
+    const response = await fetch(url, init);
+    const body = await response.text();
+    const headers = Object.fromEntries(
+      [...response.headers.entries()].filter(([name]) => !DROPPED_RESPONSE_HEADERS.has(name))
+    );
+    await this.record({ request, response: { status: response.status, headers, body } });
+    return new Response(body || null, { status: response.status, headers });
+  }
+
+  /** Resolves once every recorded interaction has been written. */
+  flush(): Promise<void> {
+    return this.saving;
+  }
+
+  private async replay(request: CassetteInteraction["request"]): Promise<Response> {
+    const interactions = await this.load();
+    // Identical requests (retries, repeated prompts) replay their recordings in order.
+    const index = interactions.findIndex(
+      (interaction, position) =>
+        !this.used.has(position) &&
+        interaction.request.method === request.method &&
+        interaction.request.url === request.url &&
+        interaction.request.body === request.body
+    );
+
+    if (index < 0) {
+      throw new Error(`No recorded interaction in ${this.options.path} for ${request.method} ${request.url}`);
+    }
+
+    this.used.add(index);
+    const { response } = interactions[index];
+    return new Response(response.body || null, { status: response.status, headers: response.headers });
+  }
+
+  private async record(interaction: CassetteInteraction): Promise<void> {
+    this.interactions ??= [];
+    this.interactions.push(interaction);
+    const file: CassetteFile = { version: 1, interactions: this.interactions };
+    this.saving = this.saving.then(async () => {
+      await mkdir(path.dirname(this.options.path), { recursive: true });
+      await writeFile(this.options.path, `${JSON.stringify(file, null, 2)}\n`, "utf8");
+    });
+    await this.saving;
+  }
+
+  private async load(): Promise<CassetteInteraction[]> {
+    if (!this.interactions) {
+      const file = JSON.parse(await readFile(this.options.path, "utf8")) as CassetteFile;
+      this.interactions = file.interactions;
+    }
+
+    return this.interactions;
+  }
+}
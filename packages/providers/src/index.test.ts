@@ -1,6 +1,42 @@
-import { describe, expect, it, vi, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import { connect, type AddressInfo, type Socket } from "node:net";
+import os from "node:os";
+import path from "node:path";
 
-import { GeminiProvider, GroqProvider, ProviderError } from "./index.js";
+import { describe, expect, it, vi, afterAll, afterEach, beforeAll } from "vitest";
+
+import {
+  AnthropicProvider,
+  GeminiProvider,
+  GroqProvider,
+  OpenAICompatibleProvider,
+  ProviderError,
+  toAssistantToolCallMessage,
+  toToolResultMessage
+} from "./index.js";
+
+const sseResponse = (chunks: readonly string[]): Response => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    }
+  });
+
+  return new Response(body, { status: 200, headers: { "content-type": "text/event-stream" } });
+};
+
+const collect = async (stream: AsyncGenerator<string, void, undefined>): Promise<string[]> => {
+  const chunks: string[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+};
 
 describe("provider adapters", () => {
   afterEach(() => {
@@ -11,7 +47,7 @@ describe("provider adapters", () => {
 
   it("maps provider rate limit responses to retryable errors", async () => {
     process.env.GEMINI_API_KEY = "test";
-    const provider = new GeminiProvider("gemini-test");
+    const provider = new GeminiProvider("gemini-test", { retry: { maxAttempts: 1 } });
 
     vi.stubGlobal(
       "fetch",
@@ -48,7 +84,32 @@ describe("provider adapters", () => {
       tools: [{ name: "run", parameters: { type: "object" } }]
     });
 
-    expect(result).toEqual({ toolName: "run", arguments: { cmd: "echo hi" }, rawText: "ok" });
+    expect(result).toEqual({
+      toolName: "run",
+      arguments: { cmd: "echo hi" },
+      rawText: "ok",
+      calls: [{ id: "call-0", toolName: "run", arguments: { cmd: "echo hi" } }]
+    });
+  });
+
+  it("rejects malformed groq tool call arguments as an invalid request", async () => {
+    process.env.GROQ_API_KEY = "test";
+    const provider = new GroqProvider("groq-test");
+
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ choices: [{ message: { tool_calls: [{ function: { name: "run", arguments: '{"cmd":"echo' } }] } }] })
+      })
+    );
+
+    await expect(provider.toolCall({ prompt: "run command", tools: [{ name: "run", parameters: { type: "object" } }] })).rejects.toMatchObject({
+      name: "ProviderError",
+      code: "INVALID_REQUEST",
+      retryable: false,
+      validationErrors: [{ path: "$", expected: "valid JSON object", received: '{"cmd":"echo' }]
+    });
   });
 
   it("repairs malformed JSON once and returns structured data", async () => {
@@ -135,4 +196,1156 @@ describe("provider adapters", () => {
       validationErrors: [{ path: "$.age", expected: "type number", received: "old" }]
     });
   });
+
+  it("requests gemini native JSON output and accepts top-level arrays", async () => {
+    process.env.GEMINI_API_KEY = "test";
+    const provider = new GeminiProvider("gemini-test");
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ candidates: [{ content: { parts: [{ text: '[{"name":"alice"},{"name":"bob"}]' }] } }] })
+    });
+
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await provider.structuredOutput<Array<{ name: string }>>({
+      prompt: "list users",
+      schema: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { name: { type: "string" }, nickname: { type: ["string", "null"] } },
+          required: ["name"],
+          additionalProperties: false
+        }
+      }
+    });
+
+    expect(result).toEqual([{ name: "alice" }, { name: "bob" }]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body as string) as { generationConfig: Record<string, unknown> };
+    expect(body.generationConfig.responseMimeType).toBe("application/json");
+    expect(body.generationConfig.responseSchema).toEqual({
+      type: "array",
+      items: {
+        type: "object",
+        properties: { name: { type: "string" }, nickname: { type: "string", nullable: true } },
+        required: ["name"]
+      }
+    });
+  });
+
+  it("uses groq JSON mode and falls back to prompt-only output when it is rejected", async () => {
+    process.env.GROQ_API_KEY = "test";
+    const provider = new GroqProvider("groq-test");
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: false, status: 400, text: async () => "json_validate_failed" })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ choices: [{ message: { content: 'Sure: {"name":"alice"}' } }] }) });
+
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await provider.structuredOutput<{ name: string }>({
+      prompt: "return a user",
+      schema: { type: "object", properties: { name: { type: "string" } }, required: ["name"] }
+    });
+
+    expect(result).toEqual({ name: "alice" });
+    const [nativeRequest, promptRequest] = fetchMock.mock.calls.map(
+      ([, init]) => JSON.parse((init as RequestInit).body as string) as Record<string, unknown>
+    );
+    expect(nativeRequest.response_format).toEqual({ type: "json_object" });
+    expect(promptRequest.response_format).toBeUndefined();
+  });
+
+  it("rethrows other invalid requests from JSON mode without a prompt-only retry", async () => {
+    process.env.GROQ_API_KEY = "test";
+    const provider = new GroqProvider("groq-missing-model");
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 404,
+      text: async () => '{"error":{"message":"The model `groq-missing-model` does not exist","code":"model_not_found"}}'
+    });
+
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(
+      provider.structuredOutput({ prompt: "return a user", schema: { type: "object" } })
+    ).rejects.toMatchObject({ code: "INVALID_REQUEST", status: 404 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("streams gemini deltas from server-sent events", async () => {
+    process.env.GEMINI_API_KEY = "test";
+    const provider = new GeminiProvider("gemini-test");
+    const fetchMock = vi.fn().mockResolvedValue(
+      sseResponse([
+        'data: {"candidates":[{"content":{"parts":[{"text":"Hel"}]}}]}\n\n',
+        'data: {"candidates":[{"content":{"parts":[{"text":"lo"}]}}]}\n',
+        '\ndata: {"candidates":[{"content":{"parts":[{"text":" world"}]}}]}\n\n'
+      ])
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(collect(provider.stream("hello"))).resolves.toEqual(["Hel", "lo", " world"]);
+    expect(fetchMock.mock.calls[0][0]).toContain(":streamGenerateContent?");
+    expect(fetchMock.mock.calls[0][0]).toContain("alt=sse");
+  });
+
+  it("streams groq deltas until the done sentinel", async () => {
+    process.env.GROQ_API_KEY = "test";
+    const provider = new GroqProvider("groq-test");
+    const fetchMock = vi.fn().mockResolvedValue(
+      sseResponse([
+        'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\n',
+        'data: {"choices":[{"delta":{"content":"a"}}]}\n\ndata: {"choices":[{"delta":{"content":"b"}}]}\n\n',
+        "data: [DONE]\n\n"
+      ])
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(collect(provider.stream("hello"))).resolves.toEqual(["a", "b"]);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body as string)).toMatchObject({ stream: true });
+  });
+
+  it("normalizes errors reported mid-stream", async () => {
+    process.env.GROQ_API_KEY = "test";
+    const provider = new GroqProvider("groq-test");
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(
+        sseResponse([
+          'data: {"choices":[{"delta":{"content":"partial"}}]}\n\n',
+          'data: {"error":{"message":"upstream overloaded","code":503}}\n\n'
+        ])
+      )
+    );
+
+    const chunks: string[] = [];
+    const consume = async (): Promise<void> => {
+      for await (const chunk of provider.stream("hello")) {
+        chunks.push(chunk);
+      }
+    };
+
+    const failure = await consume().catch((error: unknown) => error);
+    expect(chunks).toEqual(["partial"]);
+    expect(failure).toBeInstanceOf(ProviderError);
+    expect(failure).toMatchObject({ code: "TRANSIENT", retryable: true, provider: "groq" });
+  });
+
+  it("maps chat messages to gemini system instructions and content roles", async () => {
+    process.env.GEMINI_API_KEY = "test";
+    const provider = new GeminiProvider("gemini-test");
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ candidates: [{ content: { parts: [{ text: " done " }] } }] })
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await provider.chat([
+      { role: "system", content: "be terse" },
+      { role: "user", content: "read the file" },
+      { role: "assistant", content: "calling readFile" },
+      { role: "tool", name: "readFile", toolCallId: "call-1", content: "file body" }
+    ]);
+
+    expect(result.text).toBe("done");
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body as string)).toMatchObject({
+      systemInstruction: { parts: [{ text: "be terse" }] },
+      contents: [
+        { role: "user", parts: [{ text: "read the file" }] },
+        { role: "model", parts: [{ text: "calling readFile" }] },
+        { role: "user", parts: [{ functionResponse: { name: "readFile", response: { content: "file body" } } }] }
+      ]
+    });
+  });
+
+  it("maps chat messages to groq openai-style messages", async () => {
+    process.env.GROQ_API_KEY = "test";
+    const provider = new GroqProvider("groq-test");
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: "done" } }] })
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    await provider.chat([
+      { role: "system", content: "be terse" },
+      { role: "user", content: "read the file" },
+      { role: "tool", name: "readFile", toolCallId: "call-1", content: "file body" }
+    ]);
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body as string).messages).toEqual([
+      { role: "system", content: "be terse" },
+      { role: "user", content: "read the file" },
+      { role: "tool", content: "file body", tool_call_id: "call-1" }
+    ]);
+  });
+
+  it("returns every gemini function call in order", async () => {
+    process.env.GEMINI_API_KEY = "test";
+    const provider = new GeminiProvider("gemini-test");
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          candidates: [
+            {
+              content: {
+                parts: [
+                  { text: "reading both" },
+                  { functionCall: { name: "readFile", args: { path: "a.ts" } } },
+                  { functionCall: { id: "fc-2", name: "readFile", args: { path: "b.ts" } } }
+                ]
+              }
+            }
+          ]
+        })
+      })
+    );
+
+    const result = await provider.toolCall({
+      prompt: "read a and b",
+      tools: [{ name: "readFile", parameters: { type: "object" } }]
+    });
+
+    expect(result.rawText).toBe("reading both");
+    expect(result.calls).toEqual([
+      { id: "readFile-0", toolName: "readFile", arguments: { path: "a.ts" } },
+      { id: "fc-2", toolName: "readFile", arguments: { path: "b.ts" } }
+    ]);
+  });
+
+  it("sends parallel groq tool results back into the conversation", async () => {
+    process.env.GROQ_API_KEY = "test";
+    const provider = new GroqProvider("groq-test");
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        choices: [
+          {
+            message: {
+              content: null,
+              tool_calls: [
+                { id: "call_a", function: { name: "readFile", arguments: '{"path":"a.ts"}' } },
+                { id: "call_b", function: { name: "readFile", arguments: '{"path":"b.ts"}' } }
+              ]
+            }
+          }
+        ]
+      })
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const tools = [{ name: "readFile", parameters: { type: "object" } }];
+    const first = await provider.toolCall({ prompt: "read a and b", tools });
+    expect(first.calls.map((call) => call.id)).toEqual(["call_a", "call_b"]);
+
+    await provider.toolCall({
+      messages: [
+        { role: "user", content: "read a and b" },
+        toAssistantToolCallMessage(first),
+        ...first.calls.map((call) => toToolResultMessage(call, { content: `body of ${String(call.arguments.path)}` }))
+      ],
+      tools
+    });
+
+    const followUp = JSON.parse(fetchMock.mock.calls[1][1].body as string) as { messages: unknown[] };
+    expect(followUp.messages).toEqual([
+      { role: "user", content: "read a and b" },
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [
+          { id: "call_a", type: "function", function: { name: "readFile", arguments: '{"path":"a.ts"}' } },
+          { id: "call_b", type: "function", function: { name: "readFile", arguments: '{"path":"b.ts"}' } }
+        ]
+      },
+      { role: "tool", tool_call_id: "call_a", content: '{"content":"body of a.ts"}' },
+      { role: "tool", tool_call_id: "call_b", content: '{"content":"body of b.ts"}' }
+    ]);
+  });
+  it("sends parallel gemini function responses back in a single user turn", async () => {
+    process.env.GEMINI_API_KEY = "test";
+    const provider = new GeminiProvider("gemini-test");
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        candidates: [
+          {
+            content: {
+              parts: [
+                { functionCall: { name: "readFile", args: { path: "a.ts" } } },
+                { functionCall: { name: "readFile", args: { path: "b.ts" } } }
+              ]
+            }
+          }
+        ]
+      })
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const tools = [{ name: "readFile", parameters: { type: "object" } }];
+    const first = await provider.toolCall({ prompt: "read a and b", tools });
+    expect(first.calls).toHaveLength(2);
+
+    await provider.toolCall({
+      messages: [
+        { role: "user", content: "read a and b" },
+        toAssistantToolCallMessage(first),
+        ...first.calls.map((call) => toToolResultMessage(call, { content: `body of ${String(call.arguments.path)}` }))
+      ],
+      tools
+    });
+
+    const followUp = JSON.parse(fetchMock.mock.calls[1][1].body as string) as { contents: unknown[] };
+    expect(followUp.contents).toEqual([
+      { role: "user", parts: [{ text: "read a and b" }] },
+      {
+        role: "model",
+        parts: [
+          { functionCall: { name: "readFile", args: { path: "a.ts" } } },
+          { functionCall: { name: "readFile", args: { path: "b.ts" } } }
+        ]
+      },
+      {
+        role: "user",
+        parts: [
+          { functionResponse: { name: "readFile", response: { content: '{"content":"body of a.ts"}' } } },
+          { functionResponse: { name: "readFile", response: { content: '{"content":"body of b.ts"}' } } }
+        ]
+      }
+    ]);
+  });
+
+  it("returns a gemini response envelope with usage and finish reason", async () => {
+    process.env.GEMINI_API_KEY = "test";
+    const provider = new GeminiProvider("gemini-test");
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          candidates: [{ content: { parts: [{ text: "hi" }] }, finishReason: "MAX_TOKENS" }],
+          usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 3 },
+          modelVersion: "gemini-test-001"
+        })
+      })
+    );
+
+    await expect(provider.chat([{ role: "user", content: "hello" }])).resolves.toEqual({
+      text: "hi",
+      provider: "gemini",
+      model: "gemini-test-001",
+      usage: { inputTokens: 12, outputTokens: 3 },
+      finishReason: "length",
+      rawFinishReason: "MAX_TOKENS"
+    });
+  });
+
+  it("reports groq stream usage once the stream completes", async () => {
+    process.env.GROQ_API_KEY = "test";
+    const provider = new GroqProvider("groq-test");
+    const fetchMock = vi.fn().mockResolvedValue(
+      sseResponse([
+        'data: {"model":"groq-test","choices":[{"delta":{"content":"a"}}]}\n\n',
+        'data: {"model":"groq-test","choices":[{"delta":{},"finish_reason":"stop"}],"x_groq":{"usage":{"prompt_tokens":5,"completion_tokens":1}}}\n\n',
+        "data: [DONE]\n\n"
+      ])
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const onResponse = vi.fn();
+
+    await expect(collect(provider.stream("hello", { onResponse }))).resolves.toEqual(["a"]);
+    expect(onResponse).toHaveBeenCalledWith({
+      provider: "groq",
+      model: "groq-test",
+      usage: { inputTokens: 5, outputTokens: 1 },
+      finishReason: "stop",
+      rawFinishReason: "stop"
+    });
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body as string)).toMatchObject({ stream_options: { include_usage: true } });
+  });
+
+  it("reports usage for generate, tool calls and every structured-output round", async () => {
+    process.env.GROQ_API_KEY = "test";
+    const provider = new GroqProvider("groq-test");
+    const usage = { prompt_tokens: 10, completion_tokens: 2 };
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ usage, choices: [{ finish_reason: "stop", message: { content: "x" } }] }) })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            usage,
+            choices: [{ finish_reason: "tool_calls", message: { tool_calls: [{ id: "c1", function: { name: "run" } }] } }]
+          })
+        })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ usage, choices: [{ message: { content: "not json" } }] }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ usage, choices: [{ message: { content: '{"ok":true}' } }] }) })
+    );
+    const onResponse = vi.fn();
+
+    await provider.generate("hello", { onResponse });
+    await provider.toolCall({ prompt: "run", tools: [{ name: "run", parameters: {} }], onResponse });
+    await provider.structuredOutput({ prompt: "flag", schema: { type: "object" }, onResponse });
+
+    expect(onResponse).toHaveBeenCalledTimes(4);
+    expect(onResponse.mock.calls.map(([response]) => response.finishReason)).toEqual(["stop", "tool_calls", "other", "other"]);
+    expect(onResponse.mock.calls.every(([response]) => response.usage.inputTokens === 10)).toBe(true);
+  });
+});
+
+describe("incomplete output", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    delete process.env.GEMINI_API_KEY;
+    delete process.env.GROQ_API_KEY;
+  });
+
+  it("fails gemini output blocked by safety filters with CONTENT_FILTERED", async () => {
+    process.env.GEMINI_API_KEY = "test";
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ candidates: [{ finishReason: "SAFETY" }] }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ promptFeedback: { blockReason: "PROHIBITED_CONTENT" } }) })
+    );
+    const provider = new GeminiProvider("gemini-test");
+
+    await expect(provider.generate("hello")).rejects.toMatchObject({
+      provider: "gemini",
+      code: "CONTENT_FILTERED",
+      rawFinishReason: "SAFETY",
+      retryable: false,
+      message: "gemini (gemini-test) blocked the output: SAFETY"
+    });
+    await expect(provider.generate("hello")).rejects.toMatchObject({
+      code: "CONTENT_FILTERED",
+      rawFinishReason: "PROHIBITED_CONTENT"
+    });
+  });
+
+  it("fails groq output cut off at the token limit unless truncation is allowed", async () => {
+    process.env.GROQ_API_KEY = "test";
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockImplementation(async () => ({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: "Once upon a" }, finish_reason: "length" }] })
+      }))
+    );
+    const provider = new GroqProvider("groq-test");
+
+    await expect(provider.generate("tell a story", { maxTokens: 3 })).rejects.toMatchObject({
+      provider: "groq",
+      code: "OUTPUT_TRUNCATED",
+      rawFinishReason: "length",
+      partialText: "Once upon a"
+    });
+    await expect(provider.generate("tell a story", { maxTokens: 3, allowTruncation: true })).resolves.toBe("Once upon a");
+    await expect(provider.chat([{ role: "user", content: "tell a story" }])).resolves.toMatchObject({
+      text: "Once upon a",
+      finishReason: "length"
+    });
+  });
+
+  it("fails a truncated stream after yielding its text", async () => {
+    process.env.GROQ_API_KEY = "test";
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(
+        sseResponse([
+          'data: {"choices":[{"delta":{"content":"Once "}}]}\n\n',
+          'data: {"choices":[{"delta":{"content":"upon"},"finish_reason":"length"}]}\n\n',
+          "data: [DONE]\n\n"
+        ])
+      )
+    );
+
+    const chunks: string[] = [];
+    const failure = await (async () => {
+      for await (const chunk of new GroqProvider("groq-test").stream("tell a story")) {
+        chunks.push(chunk);
+      }
+    })().catch((error: unknown) => error);
+
+    expect(chunks).toEqual(["Once ", "upon"]);
+    expect(failure).toMatchObject({ code: "OUTPUT_TRUNCATED", partialText: "Once upon" });
+  });
+});
+
+describe("provider retries", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    delete process.env.GROQ_API_KEY;
+  });
+
+  const okResponse = (): Response =>
+    new Response(JSON.stringify({ choices: [{ message: { content: "ok" } }] }), { status: 200 });
+
+  it("retries rate limits after the Retry-After delay", async () => {
+    vi.useFakeTimers();
+    process.env.GROQ_API_KEY = "test";
+    const provider = new GroqProvider("groq-test");
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("slow down", { status: 429, headers: { "retry-after": "2" } }))
+      .mockResolvedValueOnce(okResponse());
+    vi.stubGlobal("fetch", fetchMock);
+
+    const pending = provider.generate("hello");
+    await vi.advanceTimersByTimeAsync(1_999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(pending).resolves.toBe("ok");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("backs off exponentially on transient failures up to the attempt limit", async () => {
+    vi.useFakeTimers();
+    process.env.GROQ_API_KEY = "test";
+    const provider = new GroqProvider("groq-test", { retry: { maxAttempts: 3, baseDelayMs: 100, jitter: false } });
+    const fetchMock = vi.fn().mockImplementation(async () => new Response("unavailable", { status: 503 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const pending = provider.generate("hello").catch((error: unknown) => error);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    await expect(pending).resolves.toMatchObject({ code: "TRANSIENT", status: 503 });
+  });
+
+  it("reads groq rate-limit reset headers for the exhausted limit", async () => {
+    process.env.GROQ_API_KEY = "test";
+    const provider = new GroqProvider("groq-test", { retry: { maxAttempts: 1 } });
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(
+        new Response("tokens exhausted", {
+          status: 429,
+          headers: {
+            "x-ratelimit-remaining-requests": "14",
+            "x-ratelimit-reset-requests": "2m59.56s",
+            "x-ratelimit-remaining-tokens": "0",
+            "x-ratelimit-reset-tokens": "7.66s"
+          }
+        })
+      )
+    );
+
+    await expect(provider.generate("hello")).rejects.toMatchObject({ code: "RATE_LIMIT", retryAfterMs: 7_660 });
+  });
+
+  it("gives up without waiting when Retry-After exceeds the configured ceiling", async () => {
+    process.env.GROQ_API_KEY = "test";
+    const provider = new GroqProvider("groq-test", { retry: { maxRetryAfterMs: 1_000 } });
+    const fetchMock = vi.fn().mockResolvedValue(new Response("later", { status: 429, headers: { "retry-after": "60" } }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(provider.generate("hello")).rejects.toMatchObject({ code: "RATE_LIMIT", retryAfterMs: 60_000 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not retry non-retryable failures", async () => {
+    process.env.GROQ_API_KEY = "test";
+    const provider = new GroqProvider("groq-test");
+    const fetchMock = vi.fn().mockResolvedValue(new Response("bad key", { status: 401 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(provider.generate("hello")).rejects.toMatchObject({ code: "AUTH" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("provider cancellation", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    delete process.env.GROQ_API_KEY;
+  });
+
+  const hangingFetch = () =>
+    vi.fn(
+      (_url: string, init: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init.signal?.addEventListener("abort", () => reject(init.signal?.reason), { once: true });
+        })
+    );
+
+  it("cancels an in-flight request with a non-retryable CANCELLED error", async () => {
+    process.env.GROQ_API_KEY = "test";
+    const fetchMock = hangingFetch();
+    vi.stubGlobal("fetch", fetchMock);
+    const controller = new AbortController();
+
+    const pending = new GroqProvider("groq-test").generate("hello", { signal: controller.signal });
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ code: "CANCELLED", retryable: false, provider: "groq" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops waiting out a retry delay once cancelled", async () => {
+    process.env.GROQ_API_KEY = "test";
+    const fetchMock = vi.fn().mockResolvedValue(new Response("slow down", { status: 429, headers: { "retry-after": "20" } }));
+    vi.stubGlobal("fetch", fetchMock);
+    const controller = new AbortController();
+
+    const pending = new GroqProvider("groq-test").structuredOutput({
+      prompt: "return a user",
+      schema: { type: "object" },
+      signal: controller.signal
+    });
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(pending).rejects.toMatchObject({ code: "CANCELLED" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("cancels a stream between deltas", async () => {
+    process.env.GROQ_API_KEY = "test";
+    const controller = new AbortController();
+    const encoder = new TextEncoder();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn((_url: string, init: RequestInit) => {
+        const body = new ReadableStream<Uint8Array>({
+          start(stream) {
+            stream.enqueue(encoder.encode('data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n'));
+            init.signal?.addEventListener("abort", () => stream.error(init.signal?.reason), { once: true });
+          }
+        });
+        return Promise.resolve(new Response(body, { status: 200 }));
+      })
+    );
+
+    const chunks: string[] = [];
+    await expect(
+      (async () => {
+        for await (const chunk of new GroqProvider("groq-test").stream("hi", { signal: controller.signal })) {
+          chunks.push(chunk);
+          controller.abort();
+        }
+      })()
+    ).rejects.toMatchObject({ code: "CANCELLED" });
+    expect(chunks).toEqual(["Hel"]);
+  });
+});
+
+describe("anthropic provider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    delete process.env.ANTHROPIC_API_KEY;
+  });
+
+  it("maps chat to the messages API with a top-level system prompt", async () => {
+    process.env.ANTHROPIC_API_KEY = "test";
+    const provider = new AnthropicProvider("claude-test");
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ content: [{ type: "text", text: "hi there" }], stop_reason: "end_turn" })
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(
+      provider.chat([
+        { role: "system", content: "be terse" },
+        { role: "user", content: "hello" }
+      ])
+    ).resolves.toMatchObject({ text: "hi there", finishReason: "stop" });
+
+    const [url, init] = fetchMock.mock.calls[0] as [string, { headers: Record<string, string>; body: string }];
+    expect(url).toBe("https://api.anthropic.com/v1/messages");
+    expect(init.headers).toMatchObject({ "x-api-key": "test", "anthropic-version": "2023-06-01" });
+    expect(JSON.parse(init.body)).toMatchObject({
+      model: "claude-test",
+      system: "be terse",
+      messages: [{ role: "user", content: "hello" }]
+    });
+  });
+
+  it("parses tool_use blocks and sends tool_result blocks back in one user turn", async () => {
+    process.env.ANTHROPIC_API_KEY = "test";
+    const provider = new AnthropicProvider("claude-test");
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        content: [
+          { type: "text", text: "Reading." },
+          { type: "tool_use", id: "toolu_a", name: "readFile", input: { path: "a.ts" } },
+          { type: "tool_use", id: "toolu_b", name: "readFile", input: { path: "b.ts" } }
+        ],
+        stop_reason: "tool_use"
+      })
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const tools = [{ name: "readFile", description: "read", parameters: { type: "object" } }];
+    const result = await provider.toolCall({ prompt: "read a and b", tools });
+    expect(result.calls).toEqual([
+      { id: "toolu_a", toolName: "readFile", arguments: { path: "a.ts" } },
+      { id: "toolu_b", toolName: "readFile", arguments: { path: "b.ts" } }
+    ]);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body as string).tools).toEqual([
+      { name: "readFile", description: "read", input_schema: { type: "object" } }
+    ]);
+
+    await provider.toolCall({
+      messages: [
+        { role: "user", content: "read a and b" },
+        toAssistantToolCallMessage(result),
+        ...result.calls.map((call) => toToolResultMessage(call, "body"))
+      ],
+      tools
+    });
+
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body as string).messages).toEqual([
+      { role: "user", content: "read a and b" },
+      {
+        role: "assistant",
+        content: [
+          { type: "text", text: "Reading." },
+          { type: "tool_use", id: "toolu_a", name: "readFile", input: { path: "a.ts" } },
+          { type: "tool_use", id: "toolu_b", name: "readFile", input: { path: "b.ts" } }
+        ]
+      },
+      {
+        role: "user",
+        content: [
+          { type: "tool_result", tool_use_id: "toolu_a", content: "body" },
+          { type: "tool_result", tool_use_id: "toolu_b", content: "body" }
+        ]
+      }
+    ]);
+  });
+
+  it("streams text deltas from server-sent events", async () => {
+    process.env.ANTHROPIC_API_KEY = "test";
+    const provider = new AnthropicProvider("claude-test");
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(
+        sseResponse([
+          'event: message_start\ndata: {"type":"message_start","message":{"model":"claude-test-1","usage":{"input_tokens":7,"output_tokens":1}}}\n\n',
+          'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hel"}}\n\n',
+          'event: ping\ndata: {"type":"ping"}\n\n',
+          'event: content_block_delta\ndata: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"lo"}}\n\n',
+          'event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"end_turn"},"usage":{"output_tokens":4}}\n\n',
+          'event: message_stop\ndata: {"type":"message_stop"}\n\n'
+        ])
+      )
+    );
+    const onResponse = vi.fn();
+
+    await expect(collect(provider.stream("hello", { onResponse }))).resolves.toEqual(["Hel", "lo"]);
+    expect(onResponse).toHaveBeenCalledWith(
+      expect.objectContaining({ model: "claude-test-1", usage: { inputTokens: 7, outputTokens: 4 }, finishReason: "stop" })
+    );
+  });
+
+  it("maps 529 overloaded responses to retryable errors", async () => {
+    process.env.ANTHROPIC_API_KEY = "test";
+    const provider = new AnthropicProvider("claude-test", { retry: { maxAttempts: 1 } });
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue({
+        ok: false,
+        status: 529,
+        text: async () => '{"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}'
+      })
+    );
+
+    await expect(provider.generate("hello")).rejects.toMatchObject({
+      provider: "anthropic",
+      code: "TRANSIENT",
+      retryable: true,
+      status: 529
+    });
+  });
+
+  it("maps overloaded_error stream events to retryable errors", async () => {
+    process.env.ANTHROPIC_API_KEY = "test";
+    const provider = new AnthropicProvider("claude-test");
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(
+        sseResponse(['event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}\n\n'])
+      )
+    );
+
+    await expect(collect(provider.stream("hello"))).rejects.toMatchObject({ code: "TRANSIENT", retryable: true });
+  });
+});
+
+const readBody = async (request: IncomingMessage): Promise<Record<string, unknown>> => {
+  let body = "";
+  for await (const chunk of request) {
+    body += String(chunk);
+  }
+  return JSON.parse(body) as Record<string, unknown>;
+};
+
+describe("attachments", () => {
+  const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "fusy-attachments-"));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    delete process.env.GEMINI_API_KEY;
+    delete process.env.GROQ_API_KEY;
+    delete process.env.ANTHROPIC_API_KEY;
+  });
+
+  it("reads screenshots from disk into gemini inline data parts", async () => {
+    process.env.GEMINI_API_KEY = "test";
+    const screenshot = path.join(dir, "screenshot.png");
+    await writeFile(screenshot, png);
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ candidates: [{ content: { parts: [{ text: "the button overlaps" }] } }] })
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const provider = new GeminiProvider("gemini-test");
+    await expect(
+      provider.generate("what regressed?", { attachments: [{ mimeType: "image/png", path: screenshot }] })
+    ).resolves.toBe("the button overlaps");
+
+    expect(provider.capabilities.vision).toBe(true);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body as string).contents).toEqual([
+      { role: "user", parts: [{ text: "what regressed?" }, { inlineData: { mimeType: "image/png", data: "iVBORw==" } }] }
+    ]);
+  });
+
+  it("sends images to groq vision models as data URLs and rejects documents", async () => {
+    process.env.GROQ_API_KEY = "test";
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: "done" } }] })
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const provider = new GroqProvider("meta-llama/llama-4-scout-17b-16e-instruct");
+    await provider.chat([{ role: "user", content: "describe", attachments: [{ mimeType: "image/png", data: png }] }]);
+
+    expect(provider.capabilities.vision).toBe(true);
+    expect(new GroqProvider("llama-3.3-70b-versatile").capabilities.vision).toBe(false);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body as string).messages).toEqual([
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "describe" },
+          { type: "image_url", image_url: { url: "data:image/png;base64,iVBORw==" } }
+        ]
+      }
+    ]);
+
+    await expect(
+      provider.generate("summarize", { attachments: [{ mimeType: "application/pdf", data: png }] })
+    ).rejects.toMatchObject({ provider: "groq", code: "INVALID_REQUEST" });
+    await expect(provider.generate("summarize", { attachments: [{ mimeType: "image/png" }] })).rejects.toMatchObject({
+      code: "INVALID_REQUEST"
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("maps images and documents to anthropic content blocks", async () => {
+    process.env.ANTHROPIC_API_KEY = "test";
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ content: [{ type: "text", text: "ok" }], stop_reason: "end_turn" })
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    await new AnthropicProvider("claude-test").generate("compare", {
+      attachments: [
+        { mimeType: "image/png", data: png },
+        { mimeType: "application/pdf", data: png }
+      ]
+    });
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body as string).messages).toEqual([
+      {
+        role: "user",
+        content: [
+          { type: "image", source: { type: "base64", media_type: "image/png", data: "iVBORw==" } },
+          { type: "document", source: { type: "base64", media_type: "application/pdf", data: "iVBORw==" } },
+          { type: "text", text: "compare" }
+        ]
+      }
+    ]);
+  });
+});
+
+describe("embeddings", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    delete process.env.GEMINI_API_KEY;
+    delete process.env.GROQ_API_KEY;
+  });
+
+  it("batches gemini embeddings in input order", async () => {
+    process.env.GEMINI_API_KEY = "test";
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ embeddings: [{ values: [0.1, 0.2] }, { values: [0.3, 0.4] }] })
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const provider = new GeminiProvider("gemini-test", { embeddingModel: "embedding-test" });
+    await expect(provider.embed(["alpha", "beta"])).resolves.toEqual([
+      [0.1, 0.2],
+      [0.3, 0.4]
+    ]);
+    await expect(provider.embed([])).resolves.toEqual([]);
+
+    const [url, init] = fetchMock.mock.calls[0] as [string, { body: string }];
+    expect(url).toBe("https://generativelanguage.googleapis.com/v1beta/models/embedding-test:batchEmbedContents");
+    expect(JSON.parse(init.body)).toEqual({
+      requests: [
+        { model: "models/embedding-test", content: { parts: [{ text: "alpha" }] } },
+        { model: "models/embedding-test", content: { parts: [{ text: "beta" }] } }
+      ]
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("reorders openai-compatible embeddings by index, reports their usage and rejects short responses", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ data: [{ index: 1, embedding: [2] }, { index: 0, embedding: [1] }], usage: { prompt_tokens: 7 } })
+      })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ data: [{ index: 0, embedding: [1] }] }) });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const provider = new OpenAICompatibleProvider({ baseUrl: "http://localhost:11434/v1", embeddingModel: "nomic-embed-text" });
+    expect(provider.capabilities.embeddings).toBe(true);
+    const onResponse = vi.fn();
+    await expect(provider.embed(["first", "second"], { onResponse })).resolves.toEqual([[1], [2]]);
+    expect(onResponse).toHaveBeenCalledWith(
+      expect.objectContaining({ provider: "openai-compatible", model: "nomic-embed-text", usage: { inputTokens: 7, outputTokens: 0 } })
+    );
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body as string)).toEqual({
+      model: "nomic-embed-text",
+      input: ["first", "second"]
+    });
+
+    await expect(provider.embed(["first", "second"])).rejects.toMatchObject({ code: "UNKNOWN" });
+  });
+
+  it("reports providers without an embedding model as unable to embed", async () => {
+    process.env.GROQ_API_KEY = "test";
+    vi.stubGlobal("fetch", vi.fn());
+
+    const local = new OpenAICompatibleProvider({ baseUrl: "http://localhost:11434/v1" });
+    const groq = new GroqProvider("groq-test");
+
+    expect(local.capabilities.embeddings).toBe(false);
+    expect(groq.capabilities.embeddings).toBe(false);
+    await expect(local.embed(["text"])).rejects.toMatchObject({ code: "INVALID_REQUEST" });
+    await expect(groq.embed()).rejects.toMatchObject({ provider: "groq", code: "INVALID_REQUEST" });
+    expect(new AnthropicProvider("claude-test").capabilities.embeddings).toBe(false);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("http provider configuration", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    delete process.env.GEMINI_API_KEY;
+    delete process.env.ANTHROPIC_API_KEY;
+  });
+
+  const okGemini = (): Response =>
+    new Response(JSON.stringify({ candidates: [{ content: { parts: [{ text: "ok" }] } }] }), { status: 200 });
+
+  it("sends the gemini key in a header and honours base URL and extra headers", async () => {
+    process.env.GEMINI_API_KEY = "gemini-secret";
+    const fetchMock = vi.fn().mockResolvedValue(okGemini());
+    vi.stubGlobal("fetch", fetchMock);
+
+    const provider = new GeminiProvider("gemini-test", {
+      baseUrl: "https://gateway.internal/google/v1beta/",
+      headers: { "x-gateway-team": "platform" }
+    });
+    await provider.generate("hi");
+
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("https://gateway.internal/google/v1beta/models/gemini-test:generateContent");
+    expect(init.headers).toMatchObject({
+      "content-type": "application/json",
+      "x-goog-api-key": "gemini-secret",
+      "x-gateway-team": "platform"
+    });
+  });
+
+  it("places the key where the configuration asks", async () => {
+    process.env.GEMINI_API_KEY = "gemini-secret";
+    process.env.ANTHROPIC_API_KEY = "anthropic-secret";
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(okGemini())
+      .mockResolvedValueOnce(new Response(JSON.stringify({ content: [{ type: "text", text: "ok" }] }), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await new GeminiProvider("gemini-test", { apiKeyPlacement: { in: "query", name: "key" } }).generate("hi");
+    await new AnthropicProvider("claude-test", {
+      baseUrl: "http://localhost:8080/anthropic/v1",
+      apiKeyPlacement: { in: "header", name: "authorization", prefix: "Bearer " }
+    }).generate("hi");
+
+    const [[geminiUrl, geminiInit], [anthropicUrl, anthropicInit]] = fetchMock.mock.calls as Array<[string, RequestInit]>;
+    expect(geminiUrl).toContain(":generateContent?key=gemini-secret");
+    expect(geminiInit.headers).not.toHaveProperty("x-goog-api-key");
+    expect(anthropicUrl).toBe("http://localhost:8080/anthropic/v1/messages");
+    expect(anthropicInit.headers).toMatchObject({ authorization: "Bearer anthropic-secret", "anthropic-version": "2023-06-01" });
+    expect(anthropicInit.headers).not.toHaveProperty("x-api-key");
+  });
+});
+
+describe("openai-compatible provider against a local server", () => {
+  let server: Server;
+  let baseUrl = "";
+  const received: Array<{ url?: string; authorization?: string; team?: string | string[]; body: Record<string, unknown> }> = [];
+
+  beforeAll(async () => {
+    server = createServer(async (request, response) => {
+      const body = await readBody(request);
+      received.push({
+        url: request.url,
+        authorization: request.headers.authorization,
+        team: request.headers["x-gateway-team"],
+        body
+      });
+
+      if (request.url !== "/v1/chat/completions") {
+        response.writeHead(404).end("not found");
+        return;
+      }
+
+      if (body.stream) {
+        response.writeHead(200, { "content-type": "text/event-stream" });
+        response.write('data: {"choices":[{"delta":{"content":"local"}}]}\n\n');
+        response.write('data: {"choices":[{"delta":{"content":" model"}}]}\n\n');
+        response.end("data: [DONE]\n\n");
+        return;
+      }
+
+      const prompt = String((body.messages as Array<{ content: string }>)[0]?.content);
+      const message = body.tools
+        ? { content: "", tool_calls: [{ id: "call_1", function: { name: "run", arguments: '{"cmd":"ls"}' } }] }
+        : { content: prompt.includes("schema") ? '{"name":"alice"}' : "hello from local" };
+
+      response.writeHead(200, { "content-type": "application/json" });
+      response.end(JSON.stringify({ choices: [{ message }] }));
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("generates, streams, calls tools and returns structured output over real HTTP", async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl, model: "local-test" });
+
+    await expect(provider.generate("hi")).resolves.toBe("hello from local");
+
+    const chunks: string[] = [];
+    for await (const chunk of provider.stream("hi")) {
+      chunks.push(chunk);
+    }
+    expect(chunks.join("")).toBe("local model");
+
+    const toolResult = await provider.toolCall({ prompt: "list", tools: [{ name: "run", parameters: { type: "object" } }] });
+    expect(toolResult.calls).toEqual([{ id: "call_1", toolName: "run", arguments: { cmd: "ls" } }]);
+
+    await expect(
+      provider.structuredOutput<{ name: string }>({
+        prompt: "return a user",
+        schema: { type: "object", properties: { name: { type: "string" } }, required: ["name"] }
+      })
+    ).resolves.toEqual({ name: "alice" });
+
+    expect(received.every((request) => request.body.model === "local-test")).toBe(true);
+    expect(received.every((request) => request.authorization === undefined)).toBe(true);
+  });
+
+  it("sends a bearer token only when a key is configured", async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl: `${baseUrl}/`, model: "local-test", apiKey: "secret" });
+    received.length = 0;
+
+    await provider.generate("hi");
+
+    expect(received[0]?.url).toBe("/v1/chat/completions");
+    expect(received[0]?.authorization).toBe("Bearer secret");
+  });
+
+  it("tunnels requests through an HTTP proxy", async () => {
+    const tunnels: string[] = [];
+    const sockets: Socket[] = [];
+    const proxy = createServer();
+    proxy.on("connect", (request: IncomingMessage, client: Socket, head: Buffer) => {
+      tunnels.push(request.url ?? "");
+      const [host, port] = (request.url ?? "").split(":");
+      const upstream = connect(Number(port), host, () => {
+        client.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+        upstream.write(head);
+        upstream.pipe(client);
+        client.pipe(upstream);
+      });
+      sockets.push(client, upstream);
+    });
+    await new Promise<void>((resolve) => proxy.listen(0, "127.0.0.1", resolve));
+    process.env.GROQ_API_KEY = "groq-secret";
+    received.length = 0;
+
+    try {
+      const provider = new GroqProvider("groq-test", {
+        baseUrl,
+        proxy: `http://127.0.0.1:${(proxy.address() as AddressInfo).port}`,
+        headers: { "x-gateway-team": "platform" }
+      });
+
+      await expect(provider.generate("hi")).resolves.toBe("hello from local");
+      expect(tunnels).toEqual([new URL(baseUrl).host]);
+      expect(received[0]).toMatchObject({ authorization: "Bearer groq-secret", team: "platform" });
+    } finally {
+      delete process.env.GROQ_API_KEY;
+      sockets.forEach((socket) => socket.destroy());
+      await new Promise<void>((resolve) => proxy.close(() => resolve()));
+    }
+  });
+
+  it("maps unexpected HTTP statuses to provider errors", async () => {
+    const provider = new OpenAICompatibleProvider({ baseUrl: `${baseUrl}/missing`, model: "local-test" });
+
+    await expect(provider.generate("hi")).rejects.toMatchObject({
+      provider: "openai-compatible",
+      code: "INVALID_REQUEST",
+      status: 404
+    });
+  });
 });
@@ -1,6 +1,12 @@
-import Ajv, { type ErrorObject, type ValidateFunction } from "ajv";
+import { readFile } from "node:fs/promises";
+import { Ajv, type ErrorObject, type ValidateFunction } from "ajv";
+import { ProxyAgent } from "undici";
+import { Cassette, type CassetteSecrets } from "./cassette.js";
 
-export type ProviderName = "gemini" | "groq";
+export type BuiltInProviderName = "gemini" | "groq" | "openai-compatible" | "anthropic";
+
+/** Built-in adapters plus any name registered in a `ProviderRegistry`. */
+export type ProviderName = BuiltInProviderName | (string & {});
 
 export type LLMErrorCode =
   | "RATE_LIMIT"
@@ -9,6 +15,13 @@ export type LLMErrorCode =
   | "NETWORK"
   | "TRANSIENT"
   | "INVALID_REQUEST"
+  | "CANCELLED"
+  | "CONTENT_FILTERED"
+  | "OUTPUT_TRUNCATED"
+  /** Skipped without a request because the provider's circuit breaker is open. */
+  | "UNAVAILABLE"
+  /** Refused before sending because the call would pass a spending ceiling. */
+  | "BUDGET_EXCEEDED"
   | "UNKNOWN";
 
 export class ProviderError extends Error {
@@ -18,6 +31,12 @@ export class ProviderError extends Error {
   readonly retryable: boolean;
   readonly cause?: unknown;
   readonly validationErrors?: readonly ValidationErrorDetail[];
+  /** Server-requested wait before retrying, from `Retry-After` or rate-limit reset headers. */
+  readonly retryAfterMs?: number;
+  /** Finish or block reason exactly as the provider reported it, for `CONTENT_FILTERED` and `OUTPUT_TRUNCATED`. */
+  readonly rawFinishReason?: string;
+  /** Text generated before the provider stopped; continuing from it is how truncated output is resumed. */
+  readonly partialText?: string;
 
   constructor(params: {
     provider: ProviderName;
@@ -27,6 +46,9 @@ export class ProviderError extends Error {
     retryable?: boolean;
     cause?: unknown;
     validationErrors?: readonly ValidationErrorDetail[];
+    retryAfterMs?: number;
+    rawFinishReason?: string;
+    partialText?: string;
   }) {
     super(params.message);
     this.name = "ProviderError";
@@ -36,6 +58,9 @@ export class ProviderError extends Error {
     this.retryable = params.retryable ?? false;
     this.cause = params.cause;
     this.validationErrors = params.validationErrors;
+    this.retryAfterMs = params.retryAfterMs;
+    this.rawFinishReason = params.rawFinishReason;
+    this.partialText = params.partialText;
   }
 }
 
@@ -52,12 +77,78 @@ export interface LLMCapabilities {
   readonly maxContextTokens: number;
   readonly preferredForLowLatency: boolean;
   readonly preferredForLowCost: boolean;
+  /** Accepts image attachments on user turns. */
+  readonly vision: boolean;
+  /** Implements `embed`. */
+  readonly embeddings: boolean;
+}
+
+export interface LLMUsage {
+  readonly inputTokens: number;
+  readonly outputTokens: number;
+}
+
+export type LLMFinishReason = "stop" | "length" | "tool_calls" | "content_filter" | "other";
+
+export interface LLMResponseMetadata {
+  readonly provider: ProviderName;
+  readonly model: string;
+  readonly usage: LLMUsage;
+  readonly finishReason: LLMFinishReason;
+  /** Finish reason exactly as reported by the provider, when it reported one. */
+  readonly rawFinishReason?: string;
+}
+
+export interface LLMResponse extends LLMResponseMetadata {
+  readonly text: string;
+}
+
+/** Receives metadata for every completed HTTP call, including structured-output repair rounds. */
+export type LLMResponseListener = (response: LLMResponseMetadata) => void;
+
+export interface LLMResponseFormat {
+  readonly type: "json";
+  /** JSON schema the output must satisfy, enforced natively where the provider supports it. */
+  readonly schema?: Record<string, unknown>;
 }
 
 export interface LLMGenerateOptions {
   readonly timeoutMs?: number;
   readonly temperature?: number;
   readonly maxTokens?: number;
+  /** Constrains output to JSON; adapters without a native JSON mode ignore it. */
+  readonly responseFormat?: LLMResponseFormat;
+  /** Attached to the prompt turn by `generate` and `stream`; `chat` reads attachments from its messages. */
+  readonly attachments?: readonly LLMAttachment[];
+  readonly onResponse?: LLMResponseListener;
+  /** Cancels the call, including pending retries, with a non-retryable `CANCELLED` error. */
+  readonly signal?: AbortSignal;
+  /** Return text cut off at `maxTokens` instead of failing `generate` and `stream` with `OUTPUT_TRUNCATED`. */
+  readonly allowTruncation?: boolean;
+}
+
+export type LLMMessageRole = "system" | "user" | "assistant" | "tool";
+
+/** Image or document sent with a user turn, from in-memory bytes or a local file such as a screenshot. */
+export interface LLMAttachment {
+  readonly mimeType: string;
+  /** Raw bytes; takes precedence over `path`. */
+  readonly data?: Uint8Array;
+  /** Local file read when the request is built. */
+  readonly path?: string;
+}
+
+export interface LLMMessage {
+  readonly role: LLMMessageRole;
+  readonly content: string;
+  /** Name of the tool that produced a `tool` message (required by Gemini). */
+  readonly name?: string;
+  /** Identifier of the tool call a `tool` message answers (required by OpenAI-style APIs). */
+  readonly toolCallId?: string;
+  /** Tool calls requested by the model in an `assistant` turn. */
+  readonly toolCalls?: readonly LLMToolCall[];
+  /** Images or documents for a `user` turn; ignored on other roles. */
+  readonly attachments?: readonly LLMAttachment[];
 }
 
 export interface LLMToolDefinition {
@@ -67,44 +158,199 @@ export interface LLMToolDefinition {
 }
 
 export interface LLMToolCallRequest {
-  readonly prompt: string;
+  /** Single-turn shorthand; ignored when `messages` is provided. */
+  readonly prompt?: string;
+  readonly messages?: readonly LLMMessage[];
   readonly tools: readonly LLMToolDefinition[];
   readonly timeoutMs?: number;
+  readonly onResponse?: LLMResponseListener;
+  readonly signal?: AbortSignal;
+}
+
+export interface LLMToolCall {
+  readonly id: string;
+  readonly toolName: string;
+  readonly arguments: Record<string, unknown>;
 }
 
 export interface LLMToolCallResult {
+  /** Name of the first requested call, kept for single-call callers. */
   readonly toolName: string;
+  /** Arguments of the first requested call, kept for single-call callers. */
   readonly arguments: Record<string, unknown>;
   readonly rawText: string;
+  readonly calls: readonly LLMToolCall[];
 }
 
 export interface LLMStructuredOutputRequest {
   readonly prompt: string;
   readonly schema: Record<string, unknown>;
+  /** Sent with the initial prompt only; repair rounds work from the model's own output. */
+  readonly attachments?: readonly LLMAttachment[];
   readonly timeoutMs?: number;
   readonly repairRetries?: number;
+  readonly onResponse?: LLMResponseListener;
+  readonly signal?: AbortSignal;
+}
+
+export interface LLMEmbedOptions {
+  readonly timeoutMs?: number;
+  readonly signal?: AbortSignal;
+  /**
+   * Called with the input tokens of each request, reported under the embedding model. Servers that
+   * return no token counts, such as Gemini's batch endpoint, report zero usage.
+   */
+  readonly onResponse?: LLMResponseListener;
+}
+
+export interface RetryPolicy {
+  /** Total attempts per HTTP call, including the first one. */
+  readonly maxAttempts?: number;
+  readonly baseDelayMs?: number;
+  readonly maxDelayMs?: number;
+  /** Randomize each backoff delay between 0 and its exponential ceiling ("full jitter"). */
+  readonly jitter?: boolean;
+  /** Give up instead of waiting when the server asks for a longer pause than this. */
+  readonly maxRetryAfterMs?: number;
+}
+
+/** Where the API key travels; `prefix` is prepended to header values, e.g. `Bearer `. */
+export type ApiKeyPlacement =
+  | { readonly in: "header"; readonly name: string; readonly prefix?: string }
+  | { readonly in: "query"; readonly name: string };
+
+export interface HttpProviderOptions {
+  readonly retry?: RetryPolicy;
+  /** Records or replays HTTP exchanges; defaults to `Cassette.fromEnv()`. */
+  readonly cassette?: Cassette;
+  /** API root up to and including the version segment, e.g. a corporate gateway or a local mock server. */
+  readonly baseUrl?: string;
+  /** Sent with every request; these win over the adapter's own headers. */
+  readonly headers?: Readonly<Record<string, string>>;
+  /** Overrides the vendor's documented API-key placement. */
+  readonly apiKeyPlacement?: ApiKeyPlacement;
+  /** HTTP(S) proxy URL every request is tunnelled through. */
+  readonly proxy?: string;
 }
 
+interface HttpProviderDefaults {
+  readonly baseUrl: string;
+  readonly apiKeyPlacement: ApiKeyPlacement;
+}
+
+const BEARER_API_KEY: ApiKeyPlacement = { in: "header", name: "authorization", prefix: "Bearer " };
+
+/** Resolves once one more HTTP request may be sent; rejects with `CANCELLED` when `signal` aborts. */
+export type RequestGate = (signal?: AbortSignal) => Promise<void>;
+
 export interface LLMProvider {
   readonly name: ProviderName;
   readonly model: string;
   readonly capabilities: LLMCapabilities;
   generate(prompt: string, options?: LLMGenerateOptions): Promise<string>;
+  chat(messages: readonly LLMMessage[], options?: LLMGenerateOptions): Promise<LLMResponse>;
   stream(
     prompt: string,
     options?: LLMGenerateOptions
   ): AsyncGenerator<string, void, undefined>;
   toolCall(request: LLMToolCallRequest): Promise<LLMToolCallResult>;
   structuredOutput<T>(request: LLMStructuredOutputRequest): Promise<T>;
+  /** Model behind `embed`; vectors from different embedding models are not comparable. */
+  readonly embeddingModel?: string;
+  /** Returns one vector per input text, in input order. Present when `capabilities.embeddings` is true. */
+  embed?(texts: readonly string[], options?: LLMEmbedOptions): Promise<number[][]>;
+  /** Makes every HTTP request, retries included, wait for `gate` first; see `RateLimitedProvider`. */
+  setRequestGate?(gate: RequestGate): void;
 }
 
 const DEFAULT_TIMEOUT_MS = 20_000;
+const ANTHROPIC_API_VERSION = "2023-06-01";
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 4_096;
 const ajv = new Ajv({ allErrors: true });
 
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+  jitter: true,
+  maxRetryAfterMs: 30_000
+};
+
+/** Resolves after `ms`, or as soon as `signal` aborts so callers can stop promptly. */
+const sleep = async (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve) => {
+    const finish = (): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", finish);
+      resolve();
+    };
+    const timer = setTimeout(finish, ms);
+    signal?.addEventListener("abort", finish, { once: true });
+  });
+
+/** Parses durations such as `1m30.5s`, `7.66s` or `250ms` used by Groq's rate-limit reset headers. */
+const parseResetDuration = (value: string): number | undefined => {
+  const pattern = /(\d+(?:\.\d+)?)(ms|h|m|s)/gu;
+  let total = 0;
+  let matched = false;
+
+  for (const match of value.matchAll(pattern)) {
+    const amount = Number(match[1]);
+    const unit = match[2];
+    total += unit === "h" ? amount * 3_600_000 : unit === "m" ? amount * 60_000 : unit === "s" ? amount * 1_000 : amount;
+    matched = true;
+  }
+
+  return matched ? Math.ceil(total) : undefined;
+};
+
+const readRetryAfterMs = (headers: Headers | undefined): number | undefined => {
+  if (!headers) {
+    return undefined;
+  }
+
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1_000);
+    }
+
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  const resets = (["requests", "tokens"] as const)
+    .map((kind) => ({
+      exhausted: headers.get(`x-ratelimit-remaining-${kind}`) === "0",
+      resetMs: parseResetDuration(headers.get(`x-ratelimit-reset-${kind}`) ?? "")
+    }))
+    .filter((reset): reset is { exhausted: boolean; resetMs: number } => reset.resetMs !== undefined);
+
+  const exhausted = resets.filter((reset) => reset.exhausted);
+  if (exhausted.length > 0) {
+    return Math.max(...exhausted.map((reset) => reset.resetMs));
+  }
+
+  return resets.length > 0 ? Math.min(...resets.map((reset) => reset.resetMs)) : undefined;
+};
+
+const toCancelledError = (provider: ProviderName, signal: AbortSignal): ProviderError =>
+  new ProviderError({
+    provider,
+    code: "CANCELLED",
+    message: `${provider} request was cancelled`,
+    retryable: false,
+    cause: signal.reason
+  });
+
 const normalizeProviderError = (
   provider: ProviderName,
   error: unknown,
-  status?: number
+  status?: number,
+  retryAfterMs?: number
 ): ProviderError => {
   if (error instanceof ProviderError) {
     return error;
@@ -141,7 +387,20 @@ const normalizeProviderError = (
       message: `${provider} rate limit exceeded`,
       status,
       retryable: true,
-      cause: error
+      cause: error,
+      retryAfterMs
+    });
+  }
+
+  if (status === 529 || message.includes("overloaded_error")) {
+    return new ProviderError({
+      provider,
+      code: "TRANSIENT",
+      message: `${provider} is overloaded`,
+      status,
+      retryable: true,
+      cause: error,
+      retryAfterMs
     });
   }
 
@@ -152,7 +411,8 @@ const normalizeProviderError = (
       message: `${provider} temporary server failure (${status})`,
       status,
       retryable: true,
-      cause: error
+      cause: error,
+      retryAfterMs
     });
   }
 
@@ -188,14 +448,195 @@ const normalizeProviderError = (
   });
 };
 
-const parseJsonText = (value: string): Record<string, unknown> => {
-  const trimmed = value.trim();
-  const start = trimmed.indexOf("{");
-  const end = trimmed.lastIndexOf("}");
-  const body = start >= 0 && end > start ? trimmed.slice(start, end + 1) : trimmed;
-  return JSON.parse(body) as Record<string, unknown>;
+const readSseData = (event: string): string | undefined => {
+  const dataLines = event
+    .split(/\r?\n/u)
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.slice(5).replace(/^ /u, ""));
+
+  return dataLines.length > 0 ? dataLines.join("\n") : undefined;
+};
+
+const parseJsonText = (value: string): unknown => {
+  const trimmed = value
+    .trim()
+    .replace(/^```(?:json)?\s*/iu, "")
+    .replace(/\s*```$/u, "");
+
+  try {
+    return JSON.parse(trimmed);
+  } catch (error) {
+    // Fall back to the outermost object or array when the model wrapped JSON in prose.
+    const start = trimmed.search(/[[{]/u);
+    const end = start >= 0 ? trimmed.lastIndexOf(trimmed[start] === "{" ? "}" : "]") : -1;
+    if (end <= start) {
+      throw error;
+    }
+
+    return JSON.parse(trimmed.slice(start, end + 1));
+  }
 };
 
+/** Reads `path` attachments into memory so adapters can encode every attachment synchronously. */
+const loadAttachments = async (provider: ProviderName, messages: readonly LLMMessage[]): Promise<readonly LLMMessage[]> =>
+  Promise.all(
+    messages.map(async (message) => {
+      if (!message.attachments?.some((attachment) => attachment.data === undefined)) {
+        return message;
+      }
+
+      const attachments = await Promise.all(
+        message.attachments.map(async (attachment) => {
+          if (attachment.data !== undefined) {
+            return attachment;
+          }
+
+          if (attachment.path === undefined) {
+            throw new ProviderError({
+              provider,
+              code: "INVALID_REQUEST",
+              message: "Attachments need either data or a path"
+            });
+          }
+
+          return { ...attachment, data: await readFile(attachment.path) };
+        })
+      );
+      return { ...message, attachments };
+    })
+  );
+
+const toBase64 = (attachment: LLMAttachment): string => Buffer.from(attachment.data ?? new Uint8Array()).toString("base64");
+
+const isImageAttachment = (attachment: LLMAttachment): boolean => attachment.mimeType.startsWith("image/");
+
+const toToolCallMessages = (provider: ProviderName, request: LLMToolCallRequest): readonly LLMMessage[] => {
+  if (request.messages && request.messages.length > 0) {
+    return request.messages;
+  }
+
+  if (request.prompt === undefined) {
+    throw new ProviderError({
+      provider,
+      code: "INVALID_REQUEST",
+      message: "Tool call requests need a prompt or messages"
+    });
+  }
+
+  return [{ role: "user", content: request.prompt }];
+};
+
+/** Parses a tool call's arguments; malformed JSON is an `INVALID_REQUEST`, as it is for structured output. */
+const parseToolArguments = (provider: ProviderName, toolName: string, rawArguments: string): Record<string, unknown> => {
+  try {
+    return parseJsonText(rawArguments) as Record<string, unknown>;
+  } catch {
+    throw new ProviderError({
+      provider,
+      code: "INVALID_REQUEST",
+      message: `${provider} produced malformed JSON arguments for tool ${toolName}`,
+      retryable: false,
+      validationErrors: [{ path: "$", expected: "valid JSON object", received: rawArguments }]
+    });
+  }
+};
+
+const toToolCallResult = (provider: ProviderName, calls: readonly LLMToolCall[], rawText: string): LLMToolCallResult => {
+  const [first] = calls;
+  if (!first) {
+    throw new ProviderError({
+      provider,
+      code: "INVALID_REQUEST",
+      message: `No tool call returned from ${provider}`
+    });
+  }
+
+  return { toolName: first.toolName, arguments: first.arguments, rawText, calls };
+};
+
+/** Builds the assistant turn that replays a tool-call result back into the conversation. */
+export const toAssistantToolCallMessage = (result: LLMToolCallResult): LLMMessage => ({
+  role: "assistant",
+  content: result.rawText,
+  toolCalls: result.calls
+});
+
+/** Builds the `tool` message answering one call; non-string output is JSON encoded. */
+export const toToolResultMessage = (call: LLMToolCall, output: unknown): LLMMessage => ({
+  role: "tool",
+  name: call.toolName,
+  toolCallId: call.id,
+  content: typeof output === "string" ? output : JSON.stringify(output)
+});
+
+const FINISH_REASONS: Record<string, LLMFinishReason> = {
+  // Gemini
+  STOP: "stop",
+  MAX_TOKENS: "length",
+  SAFETY: "content_filter",
+  RECITATION: "content_filter",
+  BLOCKLIST: "content_filter",
+  PROHIBITED_CONTENT: "content_filter",
+  SPII: "content_filter",
+  // OpenAI-compatible
+  stop: "stop",
+  length: "length",
+  tool_calls: "tool_calls",
+  content_filter: "content_filter",
+  // Anthropic
+  end_turn: "stop",
+  stop_sequence: "stop",
+  max_tokens: "length",
+  tool_use: "tool_calls",
+  refusal: "content_filter"
+};
+
+const toFinishReason = (raw: string | null | undefined): LLMFinishReason =>
+  raw ? (FINISH_REASONS[raw] ?? "other") : "other";
+
+/**
+ * Fails output that a safety filter blocked or a token limit cut off, since plain text and tool-call
+ * results cannot carry a finish reason. `chat` returns the envelope instead and leaves this to callers.
+ * Exported so adapters outside this module (plugins, test doubles) fail the same way.
+ */
+export const assertCompleteOutput = (metadata: LLMResponseMetadata, text: string, allowTruncation = false): void => {
+  const details = { provider: metadata.provider, rawFinishReason: metadata.rawFinishReason, partialText: text, retryable: false };
+  const reason = metadata.rawFinishReason ?? metadata.finishReason;
+
+  if (metadata.finishReason === "content_filter") {
+    throw new ProviderError({
+      ...details,
+      code: "CONTENT_FILTERED",
+      message: `${metadata.provider} (${metadata.model}) blocked the output: ${reason}`
+    });
+  }
+
+  if (metadata.finishReason === "length" && !allowTruncation) {
+    throw new ProviderError({
+      ...details,
+      code: "OUTPUT_TRUNCATED",
+      message: `${metadata.provider} (${metadata.model}) stopped at the output token limit: ${reason}`
+    });
+  }
+};
+
+const toEmbeddingVectors = (provider: ProviderName, texts: readonly string[], vectors: number[][]): number[][] => {
+  if (vectors.length !== texts.length || vectors.some((vector) => vector.length === 0)) {
+    throw new ProviderError({
+      provider,
+      code: "UNKNOWN",
+      message: `Expected ${texts.length} embeddings, received ${vectors.filter((vector) => vector.length > 0).length}`
+    });
+  }
+
+  return vectors;
+};
+
+const toUsage = (inputTokens: number | undefined, outputTokens: number | undefined): LLMUsage => ({
+  inputTokens: inputTokens ?? 0,
+  outputTokens: outputTokens ?? 0
+});
+
 const formatExpectedValue = (error: ErrorObject): string => {
   switch (error.keyword) {
     case "type":
@@ -255,11 +696,36 @@ const toValidationErrors = (validator: ValidateFunction, payload: unknown): Vali
     };
   });
 
+// Servers name the JSON-mode fields in their error bodies; Groq reports output that failed JSON mode as json_validate_failed.
+const JSON_MODE_ERROR = /response_format|json_validate_failed|json_object|json_schema|response_?mime_?type|response_?schema/i;
+
+/** Whether an `INVALID_REQUEST` was caused by JSON mode itself rather than the model, prompt or request shape. */
+const isJsonModeRejection = (error: unknown): boolean =>
+  error instanceof ProviderError &&
+  error.code === "INVALID_REQUEST" &&
+  JSON_MODE_ERROR.test(`${error.message} ${error.cause instanceof Error ? error.cause.message : ""}`);
+
 abstract class BaseHttpProvider implements LLMProvider {
   abstract readonly name: ProviderName;
   abstract readonly model: string;
   abstract readonly capabilities: LLMCapabilities;
   protected abstract readonly apiKeyEnv: string;
+  protected readonly retryPolicy: Required<RetryPolicy>;
+  protected readonly baseUrl: string;
+  private readonly apiKeyPlacement: ApiKeyPlacement;
+  private readonly extraHeaders: Readonly<Record<string, string>>;
+  private readonly dispatcher: ProxyAgent | undefined;
+  private readonly cassette: Cassette | undefined;
+  private requestGate: RequestGate | undefined;
+
+  constructor(options: HttpProviderOptions, defaults: HttpProviderDefaults) {
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.baseUrl = (options.baseUrl ?? defaults.baseUrl).replace(/\/+$/u, "");
+    this.apiKeyPlacement = options.apiKeyPlacement ?? defaults.apiKeyPlacement;
+    this.extraHeaders = options.headers ?? {};
+    this.dispatcher = options.proxy ? new ProxyAgent(options.proxy) : undefined;
+    this.cassette = options.cassette ?? Cassette.fromEnv();
+  }
 
   protected get apiKey(): string {
     const key = process.env[this.apiKeyEnv];
@@ -274,55 +740,263 @@ abstract class BaseHttpProvider implements LLMProvider {
     return key;
   }
 
+  setRequestGate(gate: RequestGate): void {
+    this.requestGate = gate;
+  }
+
+  /** Key attached to each request; adapters for keyless local servers may return `undefined`. */
+  protected requestApiKey(): string | undefined {
+    return this.apiKey;
+  }
+
+  protected reportResponse(
+    listener: LLMResponseListener | undefined,
+    usage: LLMUsage,
+    rawFinishReason: string | null | undefined,
+    model: string = this.model
+  ): LLMResponseMetadata {
+    const metadata: LLMResponseMetadata = {
+      provider: this.name,
+      model,
+      usage,
+      finishReason: toFinishReason(rawFinishReason),
+      rawFinishReason: rawFinishReason ?? undefined
+    };
+
+    listener?.(metadata);
+    return metadata;
+  }
+
+  /**
+   * Runs one HTTP attempt at a time, retrying retryable failures with exponential
+   * backoff. A server-provided `retryAfterMs` replaces the computed delay.
+   */
+  protected async withRetry<T>(attempt: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const { maxAttempts, baseDelayMs, maxDelayMs, jitter, maxRetryAfterMs } = this.retryPolicy;
+
+    for (let attemptNumber = 1; ; attemptNumber += 1) {
+      if (signal?.aborted) {
+        throw toCancelledError(this.name, signal);
+      }
+
+      // Waited for before the attempt arms its timeout, so queueing for a rate limit cannot time it out.
+      await this.requestGate?.(signal);
+      try {
+        return await attempt();
+      } catch (error) {
+        if (signal?.aborted) {
+          throw toCancelledError(this.name, signal);
+        }
+
+        const normalized = normalizeProviderError(this.name, error);
+        if (!normalized.retryable || attemptNumber >= maxAttempts) {
+          throw normalized;
+        }
+
+        if (normalized.retryAfterMs !== undefined && normalized.retryAfterMs > maxRetryAfterMs) {
+          throw normalized;
+        }
+
+        const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attemptNumber - 1));
+        const backoff = jitter ? Math.random() * ceiling : ceiling;
+        await sleep(normalized.retryAfterMs ?? backoff, signal);
+      }
+    }
+  }
+
+  /** Resolves a path against `baseUrl` and merges JSON, credential and caller-configured headers. */
+  private resolveRequest(path: string, init: RequestInit): { url: string; init: RequestInit } {
+    const url = new URL(`${this.baseUrl}${path}`);
+    const headers: Record<string, string> = { "content-type": "application/json", ...(init.headers as Record<string, string>) };
+    const apiKey = this.requestApiKey();
+    const placement = this.apiKeyPlacement;
+
+    if (apiKey !== undefined) {
+      if (placement.in === "query") {
+        url.searchParams.set(placement.name, apiKey);
+      } else {
+        headers[placement.name] = `${placement.prefix ?? ""}${apiKey}`;
+      }
+    }
+
+    return { url: url.toString(), init: { ...init, headers: { ...headers, ...this.extraHeaders } } };
+  }
+
+  private send(url: string, init: RequestInit): Promise<Response> {
+    const request = this.dispatcher ? { ...init, dispatcher: this.dispatcher } : init;
+    return this.cassette ? this.cassette.fetch(url, request, this.cassetteSecrets()) : fetch(url, request);
+  }
+
+  /** The resolved key and every header it or the caller may carry credentials in, for scrubbing recordings. */
+  private cassetteSecrets(): CassetteSecrets {
+    const apiKey = this.requestApiKey();
+    return {
+      values: apiKey === undefined ? [] : [apiKey],
+      headers: [
+        ...(this.apiKeyPlacement.in === "header" ? [this.apiKeyPlacement.name] : []),
+        ...Object.keys(this.extraHeaders)
+      ]
+    };
+  }
+
   protected async fetchJson<T>(
-    url: string,
-    init: RequestInit,
-    timeoutMs = DEFAULT_TIMEOUT_MS
+    path: string,
+    requestInit: RequestInit,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    signal?: AbortSignal
   ): Promise<T> {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    const { url, init } = this.resolveRequest(path, requestInit);
+    return this.withRetry(async () => {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+      try {
+        const response = await this.send(url, {
+          ...init,
+          signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal
+        });
+
+        if (!response.ok) {
+          const responseBody = await response.text();
+          throw normalizeProviderError(
+            this.name,
+            new Error(responseBody),
+            response.status,
+            readRetryAfterMs(response.headers)
+          );
+        }
+
+        return (await response.json()) as T;
+      } catch (error) {
+        throw signal?.aborted ? toCancelledError(this.name, signal) : normalizeProviderError(this.name, error);
+      } finally {
+        clearTimeout(timeout);
+      }
+    }, signal);
+  }
+
+  /**
+   * Reads a server-sent-event response and yields each `data:` payload as parsed JSON.
+   * The timeout is an idle timeout: it is re-armed on every received chunk so long
+   * generations are not cut off while the provider is still sending tokens. Only
+   * opening the stream is retried; failures after the first event propagate.
+   */
+  protected async *fetchEventStream<T>(
+    path: string,
+    requestInit: RequestInit,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    signal?: AbortSignal
+  ): AsyncGenerator<T, void, undefined> {
+    const { url, init } = this.resolveRequest(path, requestInit);
+    let controller = new AbortController();
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const rearmTimeout = (): void => {
+      clearTimeout(timeout);
+      timeout = setTimeout(() => controller.abort(), timeoutMs);
+    };
 
     try {
-      const response = await fetch(url, {
-        ...init,
-        signal: controller.signal
-      });
+      const response = await this.withRetry(async () => {
+        controller = new AbortController();
+        rearmTimeout();
+        const opened = await this.send(url, {
+          ...init,
+          signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal
+        });
+
+        if (!opened.ok) {
+          const responseBody = await opened.text();
+          throw normalizeProviderError(
+            this.name,
+            new Error(responseBody),
+            opened.status,
+            readRetryAfterMs(opened.headers)
+          );
+        }
 
-      if (!response.ok) {
-        const responseBody = await response.text();
-        throw normalizeProviderError(this.name, new Error(responseBody), response.status);
+        return opened;
+      }, signal);
+
+      if (!response.body) {
+        throw new ProviderError({
+          provider: this.name,
+          code: "UNKNOWN",
+          message: `${this.name} returned an empty stream`,
+          status: response.status
+        });
       }
 
-      return (await response.json()) as T;
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      for await (const chunk of response.body) {
+        rearmTimeout();
+        buffer += decoder.decode(chunk, { stream: true });
+
+        const events = buffer.split(/\r?\n\r?\n/u);
+        buffer = events.pop() ?? "";
+
+        for (const event of events) {
+          const data = readSseData(event);
+          if (data === undefined) {
+            continue;
+          }
+
+          if (data === "[DONE]") {
+            return;
+          }
+
+          yield JSON.parse(data) as T;
+        }
+      }
+
+      const trailing = readSseData(buffer + decoder.decode());
+      if (trailing !== undefined && trailing !== "[DONE]") {
+        yield JSON.parse(trailing) as T;
+      }
     } catch (error) {
-      throw normalizeProviderError(this.name, error);
+      throw signal?.aborted ? toCancelledError(this.name, signal) : normalizeProviderError(this.name, error);
     } finally {
       clearTimeout(timeout);
     }
   }
 
-  async *stream(
-    prompt: string,
-    options?: LLMGenerateOptions
-  ): AsyncGenerator<string, void, undefined> {
-    const generated = await this.generate(prompt, options);
-    const tokens = generated.split(/\s+/).filter(Boolean);
-    for (const token of tokens) {
-      yield `${token} `;
-    }
-  }
-
   async structuredOutput<T>(request: LLMStructuredOutputRequest): Promise<T> {
     const schema = JSON.stringify(request.schema);
     const validator = ajv.compile(request.schema);
     const repairRetries = request.repairRetries ?? 1;
-    let response = await this.generate(
-      `${request.prompt}\n\nReturn a strict JSON object matching this schema: ${schema}`,
-      { timeoutMs: request.timeoutMs }
+    let responseFormat: LLMResponseFormat | undefined = { type: "json", schema: request.schema };
+
+    const generateJson = async (
+      prompt: string,
+      temperature?: number,
+      attachments?: readonly LLMAttachment[]
+    ): Promise<string> => {
+      const options = { timeoutMs: request.timeoutMs, temperature, attachments, onResponse: request.onResponse, signal: request.signal };
+      if (responseFormat) {
+        try {
+          return await this.generate(prompt, { ...options, responseFormat });
+        } catch (error) {
+          if (!isJsonModeRejection(error)) {
+            throw error;
+          }
+
+          // The server rejected JSON mode (or the model's output under it); continue prompt-only.
+          responseFormat = undefined;
+        }
+      }
+
+      return this.generate(prompt, options);
+    };
+
+    let response = await generateJson(
+      `${request.prompt}\n\nReturn strict JSON matching this schema: ${schema}`,
+      undefined,
+      request.attachments
     );
 
     for (let attempt = 0; attempt <= repairRetries; attempt += 1) {
-      let parsed: Record<string, unknown>;
+      let parsed: unknown;
       try {
         parsed = parseJsonText(response);
       } catch {
@@ -336,14 +1010,14 @@ abstract class BaseHttpProvider implements LLMProvider {
           });
         }
 
-        response = await this.generate(
+        response = await generateJson(
           [
             "Repair this malformed JSON to match the schema.",
             `Schema: ${schema}`,
             `Malformed JSON: ${response}`,
             "Return corrected JSON only. No prose, no markdown."
           ].join("\n"),
-          { timeoutMs: request.timeoutMs, temperature: 0 }
+          0
         );
         continue;
       }
@@ -364,7 +1038,7 @@ abstract class BaseHttpProvider implements LLMProvider {
         });
       }
 
-      response = await this.generate(
+      response = await generateJson(
         [
           "Repair this JSON so it satisfies the schema.",
           `Schema: ${schema}`,
@@ -372,7 +1046,7 @@ abstract class BaseHttpProvider implements LLMProvider {
           `Validation errors: ${JSON.stringify(validationErrors)}`,
           "Return corrected JSON only. No prose, no markdown."
         ].join("\n"),
-        { timeoutMs: request.timeoutMs, temperature: 0 }
+        0
       );
     }
 
@@ -384,14 +1058,192 @@ abstract class BaseHttpProvider implements LLMProvider {
     });
   }
 
-  abstract generate(prompt: string, options?: LLMGenerateOptions): Promise<string>;
+  async generate(prompt: string, options?: LLMGenerateOptions): Promise<string> {
+    const response = await this.chat([{ role: "user", content: prompt, attachments: options?.attachments }], options);
+    assertCompleteOutput(response, response.text, options?.allowTruncation);
+    return response.text;
+  }
+
+  async *stream(prompt: string, options?: LLMGenerateOptions): AsyncGenerator<string, void, undefined> {
+    let metadata: LLMResponseMetadata | undefined;
+    let text = "";
+    const deltas = this.streamChat([{ role: "user", content: prompt, attachments: options?.attachments }], {
+      ...options,
+      onResponse: (response) => {
+        metadata = response;
+        options?.onResponse?.(response);
+      }
+    });
+
+    for await (const delta of deltas) {
+      text += delta;
+      yield delta;
+    }
+
+    if (metadata) {
+      assertCompleteOutput(metadata, text, options?.allowTruncation);
+    }
+  }
+
+  abstract chat(messages: readonly LLMMessage[], options?: LLMGenerateOptions): Promise<LLMResponse>;
+  protected abstract streamChat(
+    messages: readonly LLMMessage[],
+    options?: LLMGenerateOptions
+  ): AsyncGenerator<string, void, undefined>;
   abstract toolCall(request: LLMToolCallRequest): Promise<LLMToolCallResult>;
 }
 
+interface GeminiContent {
+  role: "user" | "model";
+  parts: Array<Record<string, unknown>>;
+}
+
 interface GeminiResponse {
   candidates?: Array<{
-    content?: { parts?: Array<{ text?: string; functionCall?: { name: string; args?: Record<string, unknown> } }> };
+    content?: {
+      parts?: Array<{ text?: string; functionCall?: { id?: string; name: string; args?: Record<string, unknown> } }>;
+    };
+    finishReason?: string;
   }>;
+  /** Present when the prompt itself was blocked; no candidates are returned then. */
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+  modelVersion?: string;
+  error?: { code?: number; message?: string; status?: string };
+}
+
+interface GeminiBatchEmbedResponse {
+  embeddings?: Array<{ values?: number[] }>;
+  usageMetadata?: { promptTokenCount?: number };
+}
+
+const toGeminiUsage = (data: GeminiResponse): LLMUsage =>
+  toUsage(data.usageMetadata?.promptTokenCount, data.usageMetadata?.candidatesTokenCount);
+
+const toGeminiContent = (message: LLMMessage): GeminiContent => {
+  if (message.role === "assistant") {
+    const callParts = (message.toolCalls ?? []).map((call) => ({
+      functionCall: { name: call.toolName, args: call.arguments }
+    }));
+    return { role: "model", parts: message.content ? [{ text: message.content }, ...callParts] : callParts };
+  }
+
+  if (message.role === "tool") {
+    if (!message.name) {
+      throw new ProviderError({
+        provider: "gemini",
+        code: "INVALID_REQUEST",
+        message: "Gemini tool messages require the name of the tool that produced them"
+      });
+    }
+
+    return {
+      role: "user",
+      parts: [{ functionResponse: { name: message.name, response: { content: message.content } } }]
+    };
+  }
+
+  const attachments = message.attachments ?? [];
+  return {
+    role: "user",
+    parts: [
+      ...(message.content || attachments.length === 0 ? [{ text: message.content }] : []),
+      ...attachments.map((attachment) => ({ inlineData: { mimeType: attachment.mimeType, data: toBase64(attachment) } }))
+    ]
+  };
+};
+
+const toGeminiRequest = (
+  messages: readonly LLMMessage[]
+): { systemInstruction?: { parts: Array<{ text: string }> }; contents: GeminiContent[] } => {
+  const system = messages
+    .filter((message) => message.role === "system")
+    .map((message) => message.content)
+    .join("\n\n");
+
+  const contents: GeminiContent[] = [];
+  for (const message of messages) {
+    if (message.role === "system") {
+      continue;
+    }
+
+    const content = toGeminiContent(message);
+    const previous = contents[contents.length - 1];
+
+    // Responses to parallel function calls must share the single user turn that answers them.
+    const previousIsFunctionResponses =
+      previous?.role === "user" && previous.parts.every((part) => "functionResponse" in part);
+    if (message.role === "tool" && previous && previousIsFunctionResponses) {
+      previous.parts.push(...content.parts);
+    } else {
+      contents.push(content);
+    }
+  }
+
+  return { systemInstruction: system ? { parts: [{ text: system }] } : undefined, contents };
+};
+
+// Gemini accepts an OpenAPI subset of JSON schema and rejects unknown keywords such as additionalProperties.
+const GEMINI_SCHEMA_KEYS = new Set([
+  "type",
+  "format",
+  "description",
+  "nullable",
+  "enum",
+  "items",
+  "properties",
+  "required",
+  "minItems",
+  "maxItems",
+  "minimum",
+  "maximum",
+  "anyOf",
+  "propertyOrdering"
+]);
+
+const toGeminiSchema = (schema: Record<string, unknown>): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (!GEMINI_SCHEMA_KEYS.has(key)) {
+      continue;
+    }
+
+    if (key === "type" && Array.isArray(value)) {
+      const types = value.filter((type) => type !== "null");
+      result.type = types[0];
+      if (types.length < value.length) {
+        result.nullable = true;
+      }
+    } else if (key === "properties" && value && typeof value === "object") {
+      result.properties = Object.fromEntries(
+        Object.entries(value as Record<string, Record<string, unknown>>).map(([name, property]) => [name, toGeminiSchema(property)])
+      );
+    } else if (key === "items" && value && typeof value === "object") {
+      result.items = toGeminiSchema(value as Record<string, unknown>);
+    } else if (key === "anyOf" && Array.isArray(value)) {
+      result.anyOf = value.map((option: Record<string, unknown>) => toGeminiSchema(option));
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result;
+};
+
+const toGeminiGenerationConfig = (options?: LLMGenerateOptions): Record<string, unknown> => ({
+  temperature: options?.temperature,
+  maxOutputTokens: options?.maxTokens,
+  ...(options?.responseFormat
+    ? {
+        responseMimeType: "application/json",
+        responseSchema: options.responseFormat.schema ? toGeminiSchema(options.responseFormat.schema) : undefined
+      }
+    : {})
+});
+
+export interface GeminiProviderOptions extends HttpProviderOptions {
+  /** Defaults to `text-embedding-004`. */
+  readonly embeddingModel?: string;
 }
 
 export class GeminiProvider extends BaseHttpProvider {
@@ -403,160 +1255,699 @@ export class GeminiProvider extends BaseHttpProvider {
     structuredOutput: true,
     maxContextTokens: 1_000_000,
     preferredForLowLatency: false,
-    preferredForLowCost: true
+    preferredForLowCost: true,
+    vision: true,
+    embeddings: true
   };
+  readonly embeddingModel: string;
   protected readonly apiKeyEnv = "GEMINI_API_KEY";
 
-  constructor(model = "gemini-1.5-flash") {
-    super();
+  constructor(model = "gemini-1.5-flash", options: GeminiProviderOptions = {}) {
+    super(options, {
+      baseUrl: "https://generativelanguage.googleapis.com/v1beta",
+      apiKeyPlacement: { in: "header", name: "x-goog-api-key" }
+    });
     this.model = model;
+    this.embeddingModel = options.embeddingModel ?? "text-embedding-004";
   }
 
-  async generate(prompt: string, options?: LLMGenerateOptions): Promise<string> {
+  async embed(texts: readonly string[], options?: LLMEmbedOptions): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
     const payload = {
-      contents: [{ parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: options?.temperature,
-        maxOutputTokens: options?.maxTokens
-      }
+      requests: texts.map((text) => ({ model: `models/${this.embeddingModel}`, content: { parts: [{ text }] } }))
     };
 
-    const data = await this.fetchJson<GeminiResponse>(
-      `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:generateContent?key=${this.apiKey}`,
-      {
-        method: "POST",
-        headers: { "content-type": "application/json" },
-        body: JSON.stringify(payload)
-      },
-      options?.timeoutMs
+    const data = await this.fetchJson<GeminiBatchEmbedResponse>(
+      `/models/${this.embeddingModel}:batchEmbedContents`,
+      { method: "POST", body: JSON.stringify(payload) },
+      options?.timeoutMs,
+      options?.signal
     );
 
-    const text = data.candidates?.[0]?.content?.parts?.map((part) => part.text ?? "").join("") ?? "";
-    return text.trim();
+    this.reportResponse(options?.onResponse, toUsage(data.usageMetadata?.promptTokenCount, 0), undefined, this.embeddingModel);
+    return toEmbeddingVectors(this.name, texts, (data.embeddings ?? []).map((embedding) => embedding.values ?? []));
   }
 
-  async toolCall(request: LLMToolCallRequest): Promise<LLMToolCallResult> {
+  async chat(messages: readonly LLMMessage[], options?: LLMGenerateOptions): Promise<LLMResponse> {
     const payload = {
-      contents: [{ parts: [{ text: request.prompt }] }],
-      tools: [{ functionDeclarations: request.tools }]
+      ...toGeminiRequest(await loadAttachments(this.name, messages)),
+      generationConfig: toGeminiGenerationConfig(options)
     };
 
     const data = await this.fetchJson<GeminiResponse>(
-      `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:generateContent?key=${this.apiKey}`,
-      {
-        method: "POST",
-        headers: { "content-type": "application/json" },
-        body: JSON.stringify(payload)
-      },
-      request.timeoutMs
+      `/models/${this.model}:generateContent`,
+      { method: "POST", body: JSON.stringify(payload) },
+      options?.timeoutMs,
+      options?.signal
     );
 
-    const part = data.candidates?.[0]?.content?.parts?.[0];
-    const functionCall = part?.functionCall;
+    const candidate = data.candidates?.[0];
+    const text = candidate?.content?.parts?.map((part) => part.text ?? "").join("") ?? "";
+    const metadata = this.reportResponse(
+      options?.onResponse,
+      toGeminiUsage(data),
+      candidate?.finishReason ?? data.promptFeedback?.blockReason,
+      data.modelVersion
+    );
+    return { ...metadata, text: text.trim() };
+  }
 
-    if (!functionCall) {
-      throw new ProviderError({
-        provider: this.name,
-        code: "INVALID_REQUEST",
-        message: "No function call returned from Gemini"
-      });
+  protected async *streamChat(
+    messages: readonly LLMMessage[],
+    options?: LLMGenerateOptions
+  ): AsyncGenerator<string, void, undefined> {
+    const payload = {
+      ...toGeminiRequest(await loadAttachments(this.name, messages)),
+      generationConfig: toGeminiGenerationConfig(options)
+    };
+
+    const events = this.fetchEventStream<GeminiResponse>(
+      `/models/${this.model}:streamGenerateContent?alt=sse`,
+      { method: "POST", body: JSON.stringify(payload) },
+      options?.timeoutMs,
+      options?.signal
+    );
+
+    let last: GeminiResponse = {};
+    let finishReason: string | undefined;
+
+    for await (const event of events) {
+      if (event.error) {
+        throw normalizeProviderError(this.name, new Error(event.error.message ?? "stream error"), event.error.code);
+      }
+
+      last = event;
+      finishReason = event.candidates?.[0]?.finishReason ?? event.promptFeedback?.blockReason ?? finishReason;
+      const delta = event.candidates?.[0]?.content?.parts?.map((part) => part.text ?? "").join("") ?? "";
+      if (delta) {
+        yield delta;
+      }
     }
 
-    return {
-      toolName: functionCall.name,
-      arguments: functionCall.args ?? {},
-      rawText: part?.text ?? ""
+    this.reportResponse(options?.onResponse, toGeminiUsage(last), finishReason, last.modelVersion);
+  }
+
+  async toolCall(request: LLMToolCallRequest): Promise<LLMToolCallResult> {
+    const payload = {
+      ...toGeminiRequest(await loadAttachments(this.name, toToolCallMessages(this.name, request))),
+      tools: [{ functionDeclarations: request.tools }]
     };
+
+    const data = await this.fetchJson<GeminiResponse>(
+      `/models/${this.model}:generateContent`,
+      { method: "POST", body: JSON.stringify(payload) },
+      request.timeoutMs,
+      request.signal
+    );
+
+    const metadata = this.reportResponse(
+      request.onResponse,
+      toGeminiUsage(data),
+      data.candidates?.[0]?.finishReason ?? data.promptFeedback?.blockReason,
+      data.modelVersion
+    );
+    const parts = data.candidates?.[0]?.content?.parts ?? [];
+    assertCompleteOutput(metadata, parts.map((part) => part.text ?? "").join(""));
+    const calls = parts
+      .map((part) => part.functionCall)
+      .filter((functionCall) => functionCall !== undefined)
+      .map((functionCall, index) => ({
+        id: functionCall.id ?? `${functionCall.name}-${index}`,
+        toolName: functionCall.name,
+        arguments: functionCall.args ?? {}
+      }));
+
+    return toToolCallResult(this.name, calls, parts.map((part) => part.text ?? "").join(""));
   }
 }
 
-interface GroqResponse {
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface OpenAIStreamChunk {
+  model?: string;
+  choices?: Array<{
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAIUsage | null;
+  /** Groq reports stream usage here instead of the standard `usage` field. */
+  x_groq?: { usage?: OpenAIUsage };
+  error?: { message?: string; type?: string; code?: string | number };
+}
+
+interface OpenAIEmbeddingResponse {
+  data?: Array<{ index?: number; embedding?: number[] }>;
+  usage?: OpenAIUsage;
+}
+
+interface OpenAIChatResponse {
+  model?: string;
+  usage?: OpenAIUsage;
   choices?: Array<{
+    finish_reason?: string | null;
     message?: {
       content?: string;
       tool_calls?: Array<{
+        id?: string;
         function?: { name?: string; arguments?: string };
       }>;
     };
   }>;
 }
 
-export class GroqProvider extends BaseHttpProvider {
+// JSON mode only guarantees a top-level object, so other schemas stay constrained by the prompt alone.
+const toOpenAIResponseFormat = (format?: LLMResponseFormat): { type: "json_object" } | undefined =>
+  format && (format.schema === undefined || format.schema.type === "object") ? { type: "json_object" } : undefined;
+
+const toOpenAIUserContent = (provider: ProviderName, message: LLMMessage): string | Array<Record<string, unknown>> => {
+  if (!message.attachments || message.attachments.length === 0) {
+    return message.content;
+  }
+
+  return [
+    ...(message.content ? [{ type: "text", text: message.content }] : []),
+    ...message.attachments.map((attachment) => {
+      if (!isImageAttachment(attachment)) {
+        throw new ProviderError({
+          provider,
+          code: "INVALID_REQUEST",
+          message: `${provider} accepts image attachments only, got ${attachment.mimeType}`
+        });
+      }
+
+      return { type: "image_url", image_url: { url: `data:${attachment.mimeType};base64,${toBase64(attachment)}` } };
+    })
+  ];
+};
+
+const toOpenAIMessages = (provider: ProviderName, messages: readonly LLMMessage[]): Array<Record<string, unknown>> =>
+  messages.map((message) => {
+    if (message.role === "tool") {
+      return { role: "tool", content: message.content, tool_call_id: message.toolCallId };
+    }
+
+    if (message.role === "assistant" && message.toolCalls && message.toolCalls.length > 0) {
+      return {
+        role: "assistant",
+        content: message.content || null,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: "function",
+          function: { name: call.toolName, arguments: JSON.stringify(call.arguments) }
+        }))
+      };
+    }
+
+    if (message.role === "user") {
+      return { role: "user", content: toOpenAIUserContent(provider, message), name: message.name };
+    }
+
+    return { role: message.role, content: message.content, name: message.name };
+  });
+
+export interface OpenAICompatibleProviderOptions extends HttpProviderOptions {
+  /** Reported as `provider` on responses, errors and usage; defaults to `openai-compatible`. */
+  readonly name?: ProviderName;
+  readonly model?: string;
+  /** Explicit API key; takes precedence over `apiKeyEnv`. Local servers usually need none. */
+  readonly apiKey?: string;
+  readonly apiKeyEnv?: string;
+  /** Model served at `/embeddings`; defaults to `FUSY_OPENAI_EMBEDDING_MODEL`. `embed` is unavailable without one. */
+  readonly embeddingModel?: string;
+  readonly capabilities?: Partial<LLMCapabilities>;
+}
+
+/**
+ * Adapter for any server exposing the OpenAI `/chat/completions` API
+ * (Ollama, llama.cpp server, vLLM, LM Studio, ...).
+ */
+export class OpenAICompatibleProvider extends BaseHttpProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  readonly capabilities: LLMCapabilities;
+  readonly embeddingModel?: string;
+  protected readonly apiKeyEnv: string;
+  private readonly explicitApiKey?: string;
+
+  constructor(options: OpenAICompatibleProviderOptions = {}) {
+    super(options, {
+      baseUrl: process.env.FUSY_OPENAI_BASE_URL ?? "http://localhost:11434/v1",
+      apiKeyPlacement: BEARER_API_KEY
+    });
+    this.name = options.name ?? "openai-compatible";
+    this.model = options.model ?? process.env.FUSY_OPENAI_MODEL ?? "llama3.1";
+    this.apiKeyEnv = options.apiKeyEnv ?? "FUSY_OPENAI_API_KEY";
+    this.explicitApiKey = options.apiKey;
+    this.embeddingModel = options.embeddingModel ?? process.env.FUSY_OPENAI_EMBEDDING_MODEL;
+    this.capabilities = {
+      streaming: true,
+      toolCalling: true,
+      structuredOutput: true,
+      maxContextTokens: 32_000,
+      preferredForLowLatency: false,
+      preferredForLowCost: true,
+      vision: false,
+      embeddings: this.embeddingModel !== undefined,
+      ...options.capabilities
+    };
+  }
+
+  async embed(texts: readonly string[], options?: LLMEmbedOptions): Promise<number[][]> {
+    if (!this.embeddingModel) {
+      throw new ProviderError({
+        provider: this.name,
+        code: "INVALID_REQUEST",
+        message: `${this.name} has no embedding model configured`
+      });
+    }
+
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const data = await this.fetchJson<OpenAIEmbeddingResponse>(
+      "/embeddings",
+      { method: "POST", body: JSON.stringify({ model: this.embeddingModel, input: texts }) },
+      options?.timeoutMs,
+      options?.signal
+    );
+
+    this.reportResponse(options?.onResponse, toUsage(data.usage?.prompt_tokens, 0), undefined, this.embeddingModel);
+    const vectors = [...(data.data ?? [])]
+      .sort((left, right) => (left.index ?? 0) - (right.index ?? 0))
+      .map((item) => item.embedding ?? []);
+    return toEmbeddingVectors(this.name, texts, vectors);
+  }
+
+  async chat(messages: readonly LLMMessage[], options?: LLMGenerateOptions): Promise<LLMResponse> {
+    const payload = {
+      model: this.model,
+      messages: toOpenAIMessages(this.name, await loadAttachments(this.name, messages)),
+      temperature: options?.temperature,
+      max_tokens: options?.maxTokens,
+      response_format: toOpenAIResponseFormat(options?.responseFormat)
+    };
+
+    const data = await this.fetchJson<OpenAIChatResponse>(
+      "/chat/completions",
+      { method: "POST", body: JSON.stringify(payload) },
+      options?.timeoutMs,
+      options?.signal
+    );
+
+    const metadata = this.reportResponse(
+      options?.onResponse,
+      toUsage(data.usage?.prompt_tokens, data.usage?.completion_tokens),
+      data.choices?.[0]?.finish_reason,
+      data.model
+    );
+    return { ...metadata, text: data.choices?.[0]?.message?.content?.trim() ?? "" };
+  }
+
+  protected async *streamChat(
+    messages: readonly LLMMessage[],
+    options?: LLMGenerateOptions
+  ): AsyncGenerator<string, void, undefined> {
+    const payload = {
+      model: this.model,
+      messages: toOpenAIMessages(this.name, await loadAttachments(this.name, messages)),
+      temperature: options?.temperature,
+      max_tokens: options?.maxTokens,
+      response_format: toOpenAIResponseFormat(options?.responseFormat),
+      stream: true,
+      stream_options: { include_usage: true }
+    };
+
+    const events = this.fetchEventStream<OpenAIStreamChunk>(
+      "/chat/completions",
+      { method: "POST", body: JSON.stringify(payload) },
+      options?.timeoutMs,
+      options?.signal
+    );
+
+    let usage: OpenAIUsage | undefined;
+    let finishReason: string | undefined;
+    let model: string | undefined;
+
+    for await (const event of events) {
+      if (event.error) {
+        const status = typeof event.error.code === "number" ? event.error.code : undefined;
+        throw normalizeProviderError(this.name, new Error(event.error.message ?? "stream error"), status);
+      }
+
+      usage = event.usage ?? event.x_groq?.usage ?? usage;
+      finishReason = event.choices?.[0]?.finish_reason ?? finishReason;
+      model = event.model ?? model;
+      const delta = event.choices?.[0]?.delta?.content;
+      if (delta) {
+        yield delta;
+      }
+    }
+
+    this.reportResponse(options?.onResponse, toUsage(usage?.prompt_tokens, usage?.completion_tokens), finishReason, model);
+  }
+
+  async toolCall(request: LLMToolCallRequest): Promise<LLMToolCallResult> {
+    const payload = {
+      model: this.model,
+      messages: toOpenAIMessages(this.name, await loadAttachments(this.name, toToolCallMessages(this.name, request))),
+      tools: request.tools.map((tool) => ({ type: "function", function: tool })),
+      tool_choice: "auto"
+    };
+
+    const data = await this.fetchJson<OpenAIChatResponse>(
+      "/chat/completions",
+      { method: "POST", body: JSON.stringify(payload) },
+      request.timeoutMs,
+      request.signal
+    );
+
+    const metadata = this.reportResponse(
+      request.onResponse,
+      toUsage(data.usage?.prompt_tokens, data.usage?.completion_tokens),
+      data.choices?.[0]?.finish_reason,
+      data.model
+    );
+    const message = data.choices?.[0]?.message;
+    assertCompleteOutput(metadata, message?.content ?? "");
+    const calls = (message?.tool_calls ?? [])
+      .filter((toolCall) => toolCall.function?.name)
+      .map((toolCall, index) => ({
+        id: toolCall.id ?? `call-${index}`,
+        toolName: toolCall.function?.name ?? "",
+        arguments: toolCall.function?.arguments
+          ? parseToolArguments(this.name, toolCall.function.name ?? "", toolCall.function.arguments)
+          : {}
+      }));
+
+    return toToolCallResult(this.name, calls, message?.content ?? "");
+  }
+
+  protected requestApiKey(): string | undefined {
+    return this.explicitApiKey ?? process.env[this.apiKeyEnv];
+  }
+}
+
+export class GroqProvider extends OpenAICompatibleProvider {
   readonly name = "groq" as const;
+  readonly embeddingModel = undefined;
+
+  constructor(model = "llama-3.3-70b-versatile", options: HttpProviderOptions = {}) {
+    super({
+      ...options,
+      baseUrl: options.baseUrl ?? "https://api.groq.com/openai/v1",
+      model,
+      apiKeyEnv: "GROQ_API_KEY",
+      capabilities: {
+        maxContextTokens: 128_000,
+        preferredForLowLatency: true,
+        preferredForLowCost: false,
+        // Groq serves vision through dedicated multimodal models such as Llama 4 Scout.
+        vision: /vision|llama-4/u.test(model),
+        // Groq has no embeddings endpoint.
+        embeddings: false
+      }
+    });
+  }
+
+  embed(): Promise<number[][]> {
+    return Promise.reject(
+      new ProviderError({ provider: this.name, code: "INVALID_REQUEST", message: "groq does not offer an embeddings API" })
+    );
+  }
+
+  protected requestApiKey(): string {
+    return this.apiKey;
+  }
+}
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; input: Record<string, unknown> }
+  | { type: "tool_result"; tool_use_id: string; content: string }
+  | { type: "image" | "document"; source: { type: "base64"; media_type: string; data: string } };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: string | AnthropicContentBlock[];
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface AnthropicResponse {
+  model?: string;
+  content?: AnthropicContentBlock[];
+  stop_reason?: string;
+  usage?: AnthropicUsage;
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  message?: { model?: string; usage?: AnthropicUsage };
+  delta?: { type?: string; text?: string; stop_reason?: string };
+  usage?: AnthropicUsage;
+  error?: { type?: string; message?: string };
+}
+
+const toAnthropicRequest = (
+  messages: readonly LLMMessage[]
+): { system?: string; messages: AnthropicMessage[] } => {
+  const system = messages
+    .filter((message) => message.role === "system")
+    .map((message) => message.content)
+    .join("\n\n");
+  const mapped: AnthropicMessage[] = [];
+
+  for (const message of messages) {
+    if (message.role === "system") {
+      continue;
+    }
+
+    if (message.role === "tool") {
+      const block: AnthropicContentBlock = {
+        type: "tool_result",
+        tool_use_id: message.toolCallId ?? "",
+        content: message.content
+      };
+      const previous = mapped[mapped.length - 1];
+
+      // Results for parallel tool calls must share a single user turn.
+      const previousIsToolResults =
+        previous?.role === "user" &&
+        Array.isArray(previous.content) &&
+        previous.content.every((item) => item.type === "tool_result");
+
+      if (previous && previousIsToolResults && Array.isArray(previous.content)) {
+        previous.content.push(block);
+      } else {
+        mapped.push({ role: "user", content: [block] });
+      }
+      continue;
+    }
+
+    if (message.role === "assistant" && message.toolCalls && message.toolCalls.length > 0) {
+      const textBlocks: AnthropicContentBlock[] = message.content ? [{ type: "text", text: message.content }] : [];
+      mapped.push({
+        role: "assistant",
+        content: [
+          ...textBlocks,
+          ...message.toolCalls.map(
+            (call): AnthropicContentBlock => ({ type: "tool_use", id: call.id, name: call.toolName, input: call.arguments })
+          )
+        ]
+      });
+      continue;
+    }
+
+    if (message.role === "user" && message.attachments && message.attachments.length > 0) {
+      mapped.push({
+        role: "user",
+        content: [
+          ...message.attachments.map(
+            (attachment): AnthropicContentBlock => ({
+              type: isImageAttachment(attachment) ? "image" : "document",
+              source: { type: "base64", media_type: attachment.mimeType, data: toBase64(attachment) }
+            })
+          ),
+          ...(message.content ? [{ type: "text" as const, text: message.content }] : [])
+        ]
+      });
+      continue;
+    }
+
+    mapped.push({ role: message.role, content: message.content });
+  }
+
+  return { system: system || undefined, messages: mapped };
+};
+
+export class AnthropicProvider extends BaseHttpProvider {
+  readonly name = "anthropic" as const;
   readonly model: string;
   readonly capabilities: LLMCapabilities = {
     streaming: true,
     toolCalling: true,
     structuredOutput: true,
-    maxContextTokens: 128_000,
-    preferredForLowLatency: true,
-    preferredForLowCost: false
+    maxContextTokens: 200_000,
+    preferredForLowLatency: false,
+    preferredForLowCost: false,
+    vision: true,
+    embeddings: false
   };
-  protected readonly apiKeyEnv = "GROQ_API_KEY";
+  protected readonly apiKeyEnv = "ANTHROPIC_API_KEY";
 
-  constructor(model = "llama-3.3-70b-versatile") {
-    super();
+  constructor(model = "claude-3-5-sonnet-latest", options: HttpProviderOptions = {}) {
+    super(options, {
+      baseUrl: "https://api.anthropic.com/v1",
+      apiKeyPlacement: { in: "header", name: "x-api-key" }
+    });
     this.model = model;
   }
 
-  async generate(prompt: string, options?: LLMGenerateOptions): Promise<string> {
+  async chat(messages: readonly LLMMessage[], options?: LLMGenerateOptions): Promise<LLMResponse> {
     const payload = {
       model: this.model,
-      messages: [{ role: "user", content: prompt }],
-      temperature: options?.temperature,
-      max_tokens: options?.maxTokens
+      ...toAnthropicRequest(await loadAttachments(this.name, messages)),
+      max_tokens: options?.maxTokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS,
+      temperature: options?.temperature
     };
 
-    const data = await this.fetchJson<GroqResponse>(
-      "https://api.groq.com/openai/v1/chat/completions",
+    const data = await this.fetchJson<AnthropicResponse>(
+      "/messages",
       {
         method: "POST",
-        headers: {
-          "content-type": "application/json",
-          authorization: `Bearer ${this.apiKey}`
-        },
+        headers: { "anthropic-version": ANTHROPIC_API_VERSION },
         body: JSON.stringify(payload)
       },
-      options?.timeoutMs
+      options?.timeoutMs,
+      options?.signal
     );
 
-    return data.choices?.[0]?.message?.content?.trim() ?? "";
+    const metadata = this.reportResponse(
+      options?.onResponse,
+      toUsage(data.usage?.input_tokens, data.usage?.output_tokens),
+      data.stop_reason,
+      data.model
+    );
+    const text = (data.content ?? [])
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("")
+      .trim();
+    return { ...metadata, text };
   }
 
-  async toolCall(request: LLMToolCallRequest): Promise<LLMToolCallResult> {
+  protected async *streamChat(
+    messages: readonly LLMMessage[],
+    options?: LLMGenerateOptions
+  ): AsyncGenerator<string, void, undefined> {
     const payload = {
       model: this.model,
-      messages: [{ role: "user", content: request.prompt }],
-      tools: request.tools.map((tool) => ({ type: "function", function: tool })),
-      tool_choice: "auto"
+      ...toAnthropicRequest(await loadAttachments(this.name, messages)),
+      max_tokens: options?.maxTokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS,
+      temperature: options?.temperature,
+      stream: true
     };
 
-    const data = await this.fetchJson<GroqResponse>(
-      "https://api.groq.com/openai/v1/chat/completions",
+    const events = this.fetchEventStream<AnthropicStreamEvent>(
+      "/messages",
       {
         method: "POST",
-        headers: {
-          "content-type": "application/json",
-          authorization: `Bearer ${this.apiKey}`
-        },
+        headers: { "anthropic-version": ANTHROPIC_API_VERSION },
         body: JSON.stringify(payload)
       },
-      request.timeoutMs
+      options?.timeoutMs,
+      options?.signal
     );
 
-    const toolCall = data.choices?.[0]?.message?.tool_calls?.[0]?.function;
-    if (!toolCall?.name) {
-      throw new ProviderError({
-        provider: this.name,
-        code: "INVALID_REQUEST",
-        message: "No tool call returned from Groq"
-      });
+    let inputTokens: number | undefined;
+    let outputTokens: number | undefined;
+    let stopReason: string | undefined;
+    let model: string | undefined;
+
+    for await (const event of events) {
+      if (event.type === "error") {
+        const status = event.error?.type === "overloaded_error" ? 529 : undefined;
+        const message = `${event.error?.type ?? "error"}: ${event.error?.message ?? "stream error"}`;
+        throw normalizeProviderError(this.name, new Error(message), status);
+      }
+
+      if (event.type === "message_start") {
+        model = event.message?.model;
+        inputTokens = event.message?.usage?.input_tokens;
+        outputTokens = event.message?.usage?.output_tokens;
+      }
+
+      if (event.type === "message_delta") {
+        stopReason = event.delta?.stop_reason ?? stopReason;
+        outputTokens = event.usage?.output_tokens ?? outputTokens;
+      }
+
+      if (event.type === "content_block_delta" && event.delta?.type === "text_delta" && event.delta.text) {
+        yield event.delta.text;
+      }
+
+      if (event.type === "message_stop") {
+        break;
+      }
     }
 
-    return {
-      toolName: toolCall.name,
-      arguments: toolCall.arguments ? parseJsonText(toolCall.arguments) : {},
-      rawText: data.choices?.[0]?.message?.content ?? ""
+    this.reportResponse(options?.onResponse, toUsage(inputTokens, outputTokens), stopReason, model);
+  }
+
+  async toolCall(request: LLMToolCallRequest): Promise<LLMToolCallResult> {
+    const payload = {
+      model: this.model,
+      ...toAnthropicRequest(await loadAttachments(this.name, toToolCallMessages(this.name, request))),
+      max_tokens: ANTHROPIC_DEFAULT_MAX_TOKENS,
+      tools: request.tools.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters
+      })),
+      tool_choice: { type: "auto" }
     };
+
+    const data = await this.fetchJson<AnthropicResponse>(
+      "/messages",
+      {
+        method: "POST",
+        headers: { "anthropic-version": ANTHROPIC_API_VERSION },
+        body: JSON.stringify(payload)
+      },
+      request.timeoutMs,
+      request.signal
+    );
+
+    const metadata = this.reportResponse(
+      request.onResponse,
+      toUsage(data.usage?.input_tokens, data.usage?.output_tokens),
+      data.stop_reason,
+      data.model
+    );
+    const blocks = data.content ?? [];
+    const rawText = blocks.map((block) => (block.type === "text" ? block.text : "")).join("");
+    assertCompleteOutput(metadata, rawText);
+    const calls = blocks.flatMap((block) =>
+      block.type === "tool_use" ? [{ id: block.id, toolName: block.name, arguments: block.input ?? {} }] : []
+    );
+
+    return toToolCallResult(this.name, calls, rawText);
   }
 }
+
+export * from "./pricing.js";
+export * from "./cache.js";
+export * from "./cassette.js";
+export * from "./rate-limit.js";
+export * from "./registry.js";
+export * from "./scripted.js";
+export * from "./tokenizer.js";
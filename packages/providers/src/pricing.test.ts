@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { createUsageListener, PricingRegistry } from "./index.js";
+
+describe("pricing registry", () => {
+  it("prices exact, dated and alias model names", () => {
+    const pricing = new PricingRegistry();
+
+    expect(pricing.get("groq", "llama-3.3-70b-versatile")).toEqual({ inputPerMillionUsd: 0.59, outputPerMillionUsd: 0.79 });
+    expect(pricing.get("anthropic", "claude-3-5-sonnet-20241022")?.inputPerMillionUsd).toBe(3);
+    expect(pricing.get("anthropic", "claude-3-5-sonnet-latest")?.inputPerMillionUsd).toBe(3);
+    expect(pricing.get("gemini", "gemini-1.5-flash-002")?.outputPerMillionUsd).toBe(0.3);
+    expect(pricing.get("openai-compatible", "llama3.1")).toEqual({ inputPerMillionUsd: 0, outputPerMillionUsd: 0 });
+    expect(pricing.get("gemini", "unknown-model")).toBeUndefined();
+  });
+
+  it("computes cost per million tokens and applies overrides", () => {
+    const pricing = new PricingRegistry({ "groq:llama-3.3-70b-versatile": { inputPerMillionUsd: 1, outputPerMillionUsd: 2 } });
+
+    expect(pricing.computeCost("groq", "llama-3.3-70b-versatile", { inputTokens: 500_000, outputTokens: 250_000 })).toBe(1);
+    expect(pricing.computeCost("gemini", "unknown-model", { inputTokens: 1_000, outputTokens: 1_000 })).toBe(0);
+  });
+
+  it("feeds priced usage into a usage sink", () => {
+    const sink = { usage: vi.fn() };
+    const listener = createUsageListener(new PricingRegistry(), sink, { sessionId: "s1" });
+
+    listener({
+      provider: "anthropic",
+      model: "claude-3-5-haiku-20241022",
+      usage: { inputTokens: 1_000_000, outputTokens: 0 },
+      finishReason: "stop"
+    });
+
+    expect(sink.usage).toHaveBeenCalledWith(
+      "llm.usage",
+      { tokensIn: 1_000_000, tokensOut: 0, costUsd: 0.8 },
+      { sessionId: "s1", provider: "anthropic", model: "claude-3-5-haiku-20241022", finishReason: "stop" }
+    );
+  });
+});
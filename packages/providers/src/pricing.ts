@@ -0,0 +1,92 @@
+import type { LLMResponseListener, LLMResponseMetadata, LLMUsage, ProviderName } from "./index.js";
+
+export interface ModelPricing {
+  readonly inputPerMillionUsd: number;
+  readonly outputPerMillionUsd: number;
+}
+
+/** Pricing keyed by `provider:model`; `provider:*` prices every model of a provider. */
+export type PricingTable = Record<string, ModelPricing>;
+
+export const DEFAULT_MODEL_PRICING: PricingTable = {
+  "gemini:gemini-1.5-flash": { inputPerMillionUsd: 0.075, outputPerMillionUsd: 0.3 },
+  "gemini:gemini-1.5-pro": { inputPerMillionUsd: 1.25, outputPerMillionUsd: 5 },
+  "gemini:gemini-2.0-flash": { inputPerMillionUsd: 0.1, outputPerMillionUsd: 0.4 },
+  "groq:llama-3.3-70b-versatile": { inputPerMillionUsd: 0.59, outputPerMillionUsd: 0.79 },
+  "groq:llama-3.1-8b-instant": { inputPerMillionUsd: 0.05, outputPerMillionUsd: 0.08 },
+  "anthropic:claude-3-5-sonnet": { inputPerMillionUsd: 3, outputPerMillionUsd: 15 },
+  "anthropic:claude-3-5-haiku": { inputPerMillionUsd: 0.8, outputPerMillionUsd: 4 },
+  "openai-compatible:*": { inputPerMillionUsd: 0, outputPerMillionUsd: 0 }
+};
+
+/** Structural match for `Logger.usage` from `@fusy/telemetry`. */
+export interface UsageSink {
+  usage(
+    message: string,
+    usage: { tokensIn: number; tokensOut: number; costUsd: number },
+    meta?: Record<string, unknown>
+  ): void;
+}
+
+const stripAlias = (model: string): string => model.replace(/-latest$/u, "");
+
+export class PricingRegistry {
+  private readonly table: PricingTable;
+
+  constructor(overrides: PricingTable = {}) {
+    this.table = { ...DEFAULT_MODEL_PRICING, ...overrides };
+  }
+
+  /**
+   * Resolves pricing by exact key, then by the longest model prefix (so dated
+   * snapshots such as `claude-3-5-sonnet-20241022` match), then by `provider:*`.
+   */
+  get(provider: ProviderName, model: string): ModelPricing | undefined {
+    const exact = this.table[`${provider}:${model}`];
+    if (exact) {
+      return exact;
+    }
+
+    const prefix = `${provider}:`;
+    const prefixMatch = Object.keys(this.table)
+      .filter((key) => key.startsWith(prefix) && key !== `${provider}:*`)
+      .map((key) => ({ key, model: stripAlias(key.slice(prefix.length)) }))
+      .filter((candidate) => stripAlias(model).startsWith(candidate.model))
+      .sort((left, right) => right.model.length - left.model.length)[0];
+
+    return prefixMatch ? this.table[prefixMatch.key] : this.table[`${provider}:*`];
+  }
+
+  /** Returns the USD cost of a call; unknown models cost 0 rather than failing the call. */
+  computeCost(provider: ProviderName, model: string, usage: LLMUsage): number {
+    const pricing = this.get(provider, model);
+    if (!pricing) {
+      return 0;
+    }
+
+    return (
+      (usage.inputTokens * pricing.inputPerMillionUsd + usage.outputTokens * pricing.outputPerMillionUsd) / 1_000_000
+    );
+  }
+
+  computeResponseCost(response: LLMResponseMetadata): number {
+    return this.computeCost(response.provider, response.model, response.usage);
+  }
+}
+
+/** Builds a response listener that prices every call and records it on the sink. */
+export const createUsageListener = (
+  pricing: PricingRegistry,
+  sink: UsageSink,
+  meta: Record<string, unknown> = {}
+): LLMResponseListener => (response) => {
+  sink.usage(
+    "llm.usage",
+    {
+      tokensIn: response.usage.inputTokens,
+      tokensOut: response.usage.outputTokens,
+      costUsd: pricing.computeResponseCost(response)
+    },
+    { ...meta, provider: response.provider, model: response.model, finishReason: response.finishReason }
+  );
+};
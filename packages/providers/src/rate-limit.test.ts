@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  GroqProvider,
+  RateLimitedProvider,
+  RateLimiter,
+  RateLimiterRegistry,
+  type LLMProvider,
+  type LLMResponseMetadata
+} from "./index.js";
+
+const makeProvider = (overrides: Partial<LLMProvider> = {}): LLMProvider => ({
+  name: "groq",
+  model: "groq-test",
+  capabilities: {
+    toolCalling: true,
+    structuredOutput: true,
+    streaming: true,
+    maxContextTokens: 128_000,
+    preferredForLowLatency: true,
+    preferredForLowCost: false,
+    vision: false,
+    embeddings: false
+  },
+  generate: vi.fn(async (prompt: string) => `answer to ${prompt}`),
+  chat: vi.fn(),
+  stream: vi.fn(),
+  toolCall: vi.fn(),
+  structuredOutput: vi.fn(),
+  ...overrides
+});
+
+const flush = async (): Promise<void> => {
+  await vi.advanceTimersByTimeAsync(0);
+};
+
+describe("RateLimitedProvider", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("queues requests beyond the per-minute budget instead of sending them", async () => {
+    const provider = makeProvider();
+    const events = { debug: vi.fn() };
+    const limited = new RateLimitedProvider(provider, new RateLimiter("groq", "groq-test", { requestsPerMinute: 2 }, events));
+
+    const results = ["a", "b", "c"].map((prompt) => limited.generate(prompt));
+    await flush();
+    expect(provider.generate).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(29_000);
+    expect(provider.generate).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    await expect(Promise.all(results)).resolves.toEqual(["answer to a", "answer to b", "answer to c"]);
+    expect(events.debug).toHaveBeenCalledWith("llm.rate_limit.waited", { provider: "groq", model: "groq-test", waitedMs: 30_000 });
+  });
+
+  it("caps concurrent calls and admits the next one when a slot frees", async () => {
+    const finish: Array<() => void> = [];
+    const provider = makeProvider({
+      generate: vi.fn(() => new Promise<string>((resolve) => finish.push(() => resolve("done"))))
+    });
+    const limited = new RateLimitedProvider(provider, new RateLimiter("groq", "groq-test", { maxConcurrency: 1 }));
+
+    const first = limited.generate("first");
+    const second = limited.generate("second");
+    await flush();
+    expect(provider.generate).toHaveBeenCalledTimes(1);
+
+    finish[0]();
+    await expect(first).resolves.toBe("done");
+    await flush();
+    expect(provider.generate).toHaveBeenCalledTimes(2);
+
+    finish[1]();
+    await expect(second).resolves.toBe("done");
+  });
+
+  it("charges reported token usage against the tokens-per-minute budget", async () => {
+    const usage = (inputTokens: number, outputTokens: number): LLMResponseMetadata => ({
+      provider: "groq",
+      model: "groq-test",
+      usage: { inputTokens, outputTokens },
+      finishReason: "stop"
+    });
+    const provider = makeProvider({
+      generate: vi.fn(async (_prompt: string, options) => {
+        options?.onResponse?.(usage(600, 400));
+        return "ok";
+      })
+    });
+    const onResponse = vi.fn();
+    const limited = new RateLimitedProvider(provider, new RateLimiter("groq", "groq-test", { tokensPerMinute: 1_000 }));
+
+    await limited.generate("tiny", { onResponse });
+    expect(onResponse).toHaveBeenCalledWith(usage(600, 400));
+
+    const next = limited.generate("tiny");
+    await flush();
+    expect(provider.generate).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    await expect(next).resolves.toBe("ok");
+  });
+
+  it("charges every HTTP request of an adapter call, including JSON repairs, against the request budget", async () => {
+    process.env.GROQ_API_KEY = "test";
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ choices: [{ message: { content: '{"name": ' } }] }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ choices: [{ message: { content: '{"name":"alice"}' } }] }) });
+    vi.stubGlobal("fetch", fetchMock);
+    const limited = new RateLimitedProvider(
+      new GroqProvider("groq-test"),
+      new RateLimiter("groq", "groq-test", { requestsPerMinute: 1, maxConcurrency: 1 })
+    );
+
+    try {
+      const result = limited.structuredOutput({ prompt: "return a user", schema: { type: "object" } });
+      await flush();
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(60_000);
+      await expect(result).resolves.toEqual({ name: "alice" });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.unstubAllGlobals();
+      delete process.env.GROQ_API_KEY;
+    }
+  });
+
+  it("rejects queued calls with CANCELLED when their signal aborts", async () => {
+    const provider = makeProvider();
+    const limited = new RateLimitedProvider(provider, new RateLimiter("groq", "groq-test", { requestsPerMinute: 1 }));
+    const controller = new AbortController();
+
+    await limited.generate("first");
+    const queued = limited.generate("second", { signal: controller.signal });
+    controller.abort();
+
+    await expect(queued).rejects.toMatchObject({ code: "CANCELLED", retryable: false });
+    expect(provider.generate).toHaveBeenCalledTimes(1);
+  });
+
+  it("shares one limiter per provider model and leaves unconfigured providers unwrapped", async () => {
+    const registry = new RateLimiterRegistry({ "groq:*": { requestsPerMinute: 1 }, "groq:fast": { requestsPerMinute: 5 } });
+    const provider = makeProvider();
+
+    expect(registry.get("groq", "groq-test")).toBe(registry.get("groq", "groq-test"));
+    expect(registry.get("groq", "fast")).not.toBe(registry.get("groq", "groq-test"));
+    expect(registry.get("gemini", "gemini-test")).toBeUndefined();
+    expect(registry.wrap({ ...provider, name: "gemini" })).toMatchObject({ name: "gemini" });
+    expect(registry.wrap(provider)).toBeInstanceOf(RateLimitedProvider);
+
+    await registry.wrap(provider).generate("one");
+    const blocked = registry.wrap(provider).generate("two");
+    await flush();
+    expect(provider.generate).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    await expect(blocked).resolves.toBe("answer to two");
+  });
+});
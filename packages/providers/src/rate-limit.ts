@@ -0,0 +1,388 @@
+import {
+  ProviderError,
+  TokenizerRegistry,
+  type LLMCapabilities,
+  type LLMEmbedOptions,
+  type LLMGenerateOptions,
+  type LLMMessage,
+  type LLMProvider,
+  type LLMResponse,
+  type LLMResponseListener,
+  type LLMStructuredOutputRequest,
+  type LLMToolCallRequest,
+  type LLMToolCallResult,
+  type ProviderName,
+  type Tokenizer
+} from "./index.js";
+
+/** Client-side limits for one provider model; omitted limits are not enforced. */
+export interface RateLimit {
+  readonly requestsPerMinute?: number;
+  /** Input plus output tokens; requests are charged an estimate up front and settled against reported usage. */
+  readonly tokensPerMinute?: number;
+  readonly maxConcurrency?: number;
+}
+
+/** Limits keyed by `provider:model`; `provider:*` applies to every model of a provider, each with its own budget. */
+export type RateLimitTable = Record<string, RateLimit>;
+
+/** Structural match for `Logger.debug` from `@fusy/telemetry`. */
+export interface RateLimitEventSink {
+  debug(message: string, meta?: Record<string, unknown>): void;
+}
+
+export interface RateLimitPermit {
+  /** Frees the concurrency slot and charges the difference between actual and estimated tokens. */
+  release(actualTokens?: number): void;
+}
+
+const MINUTE_MS = 60_000;
+
+class TokenBucket {
+  private level: number;
+  private updatedAt: number;
+
+  constructor(
+    readonly capacity: number,
+    private readonly now: () => number
+  ) {
+    this.level = capacity;
+    this.updatedAt = now();
+  }
+
+  /** Milliseconds until `cost` fits; 0 when it fits now. */
+  waitMs(cost: number): number {
+    this.refill();
+    const missing = Math.min(cost, this.capacity) - this.level;
+    return missing <= 0 ? 0 : Math.ceil((missing * MINUTE_MS) / this.capacity);
+  }
+
+  take(cost: number): void {
+    this.refill();
+    this.level -= Math.min(cost, this.capacity);
+  }
+
+  /** Charges (or refunds) a correction; the level may go negative, delaying later requests. */
+  adjust(delta: number): void {
+    this.refill();
+    this.level = Math.min(this.capacity, this.level - delta);
+  }
+
+  private refill(): void {
+    const now = this.now();
+    this.level = Math.min(this.capacity, this.level + ((now - this.updatedAt) * this.capacity) / MINUTE_MS);
+    this.updatedAt = now;
+  }
+}
+
+interface Waiter {
+  readonly tokens: number;
+  /** 1 when admission charges the requests bucket. */
+  readonly requests: number;
+  readonly enqueuedAt: number;
+  readonly admit: () => void;
+  readonly reject: (error: unknown) => void;
+  readonly signal?: AbortSignal;
+  readonly onAbort: () => void;
+}
+
+/**
+ * Token buckets for requests and tokens per minute plus a concurrency cap. Callers queue in
+ * FIFO order until every limit admits them, so bursts wait locally instead of drawing 429s.
+ */
+export class RateLimiter {
+  private readonly requests?: TokenBucket;
+  private readonly tokens?: TokenBucket;
+  private readonly queue: Waiter[] = [];
+  /** HTTP requests of calls that already hold a slot; see `acquireRequest`. */
+  private readonly requestQueue: Waiter[] = [];
+  private active = 0;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(
+    readonly provider: ProviderName,
+    readonly model: string,
+    private readonly limit: RateLimit,
+    private readonly events?: RateLimitEventSink,
+    private readonly now: () => number = Date.now
+  ) {
+    this.requests = limit.requestsPerMinute ? new TokenBucket(limit.requestsPerMinute, now) : undefined;
+    this.tokens = limit.tokensPerMinute ? new TokenBucket(limit.tokensPerMinute, now) : undefined;
+  }
+
+  get pending(): number {
+    return this.queue.length + this.requestQueue.length;
+  }
+
+  /**
+   * Waits for a concurrency slot and the call's token estimate. The call is also charged one
+   * request unless `countsRequests` is false because its provider acquires each HTTP request itself.
+   */
+  acquire(estimatedTokens: number, signal?: AbortSignal, countsRequests = true): Promise<RateLimitPermit> {
+    return new Promise((resolve, reject) => {
+      this.enqueue(this.queue, estimatedTokens, countsRequests ? 1 : 0, signal, () => {
+        this.active += 1;
+        resolve(this.createPermit(estimatedTokens));
+      }, reject);
+    });
+  }
+
+  /**
+   * Waits for the requests-per-minute budget alone, once per HTTP request including retries and
+   * repair rounds. These go ahead of queued calls, whose slots they could otherwise wait on forever.
+   */
+  acquireRequest(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.enqueue(this.requestQueue, 0, 1, signal, resolve, reject);
+    });
+  }
+
+  private enqueue(
+    queue: Waiter[],
+    tokens: number,
+    requests: number,
+    signal: AbortSignal | undefined,
+    admit: () => void,
+    reject: (error: unknown) => void
+  ): void {
+    if (signal?.aborted) {
+      reject(this.toCancelledError(signal));
+      return;
+    }
+
+    const waiter: Waiter = {
+      tokens,
+      requests,
+      enqueuedAt: this.now(),
+      admit,
+      reject,
+      signal,
+      onAbort: () => {
+        queue.splice(queue.indexOf(waiter), 1);
+        reject(this.toCancelledError(signal as AbortSignal));
+        this.pump();
+      }
+    };
+
+    signal?.addEventListener("abort", waiter.onAbort, { once: true });
+    queue.push(waiter);
+    this.pump();
+  }
+
+  private pump(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    for (const queue of [this.requestQueue, this.queue]) {
+      while (queue.length > 0) {
+        if (queue === this.queue && this.limit.maxConcurrency !== undefined && this.active >= this.limit.maxConcurrency) {
+          break;
+        }
+
+        const waiter = queue[0];
+        const waitMs = Math.max(
+          waiter.requests > 0 ? (this.requests?.waitMs(waiter.requests) ?? 0) : 0,
+          this.tokens?.waitMs(waiter.tokens) ?? 0
+        );
+        if (waitMs > 0) {
+          this.timer = setTimeout(() => this.pump(), waitMs);
+          return;
+        }
+
+        queue.shift();
+        waiter.signal?.removeEventListener("abort", waiter.onAbort);
+        this.requests?.take(waiter.requests);
+        this.tokens?.take(waiter.tokens);
+
+        const waitedMs = this.now() - waiter.enqueuedAt;
+        if (waitedMs > 0) {
+          this.events?.debug("llm.rate_limit.waited", { provider: this.provider, model: this.model, waitedMs });
+        }
+
+        waiter.admit();
+      }
+    }
+  }
+
+  private createPermit(estimatedTokens: number): RateLimitPermit {
+    let released = false;
+    return {
+      release: (actualTokens) => {
+        if (released) {
+          return;
+        }
+
+        released = true;
+        this.active -= 1;
+        if (actualTokens !== undefined) {
+          this.tokens?.adjust(actualTokens - estimatedTokens);
+        }
+        this.pump();
+      }
+    };
+  }
+
+  private toCancelledError(signal: AbortSignal): ProviderError {
+    return new ProviderError({
+      provider: this.provider,
+      code: "CANCELLED",
+      message: "Request was cancelled while waiting for a rate limit",
+      retryable: false,
+      cause: signal.reason
+    });
+  }
+}
+
+/** Hands out one shared limiter per configured provider model, so every wrapper draws on the same budget. */
+export class RateLimiterRegistry {
+  private readonly limiters = new Map<string, RateLimiter>();
+
+  constructor(
+    private readonly table: RateLimitTable,
+    private readonly events?: RateLimitEventSink,
+    private readonly tokenizers?: TokenizerRegistry
+  ) {}
+
+  /** Resolves limits by exact `provider:model`, then by `provider:*`. */
+  get(provider: ProviderName, model: string): RateLimiter | undefined {
+    const key = `${provider}:${model}`;
+    const existing = this.limiters.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const limit = this.table[key] ?? this.table[`${provider}:*`];
+    if (!limit) {
+      return undefined;
+    }
+
+    const limiter = new RateLimiter(provider, model, limit, this.events);
+    this.limiters.set(key, limiter);
+    return limiter;
+  }
+
+  /** Wraps `provider` when limits are configured for it and returns it unchanged otherwise. */
+  wrap(provider: LLMProvider): LLMProvider {
+    const limiter = this.get(provider.name, provider.model);
+    return limiter ? new RateLimitedProvider(provider, limiter, this.tokenizers?.get(provider.name, provider.model)) : provider;
+  }
+}
+
+const withListener = (
+  listener: LLMResponseListener | undefined,
+  tally: LLMResponseListener
+): LLMResponseListener => (response) => {
+  tally(response);
+  listener?.(response);
+};
+
+/** Sums usage over every provider round of a call, e.g. structured-output repairs. */
+class UsageTally {
+  total: number | undefined;
+
+  readonly listener: LLMResponseListener = (response) => {
+    this.total = (this.total ?? 0) + response.usage.inputTokens + response.usage.outputTokens;
+  };
+}
+
+/**
+ * Queues calls to `provider` behind a `RateLimiter`. Calls are charged the model's token count
+ * up front; streams hold their concurrency slot until they finish, and usage reported through
+ * `onResponse` settles each call's estimate. Providers that accept a request gate, such as every
+ * built-in HTTP adapter, draw on the requests-per-minute budget once per HTTP request, so retries
+ * and structured-output repairs count too; other providers are charged one request per call.
+ */
+export class RateLimitedProvider implements LLMProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  readonly capabilities: LLMCapabilities;
+  readonly embeddingModel?: string;
+  readonly embed?: LLMProvider["embed"];
+  private readonly tokenizer: Tokenizer;
+  private readonly countsRequests: boolean;
+
+  constructor(
+    private readonly provider: LLMProvider,
+    private readonly limiter: RateLimiter,
+    tokenizer?: Tokenizer
+  ) {
+    this.tokenizer = tokenizer ?? new TokenizerRegistry().get(provider.name, provider.model);
+    this.name = provider.name;
+    this.model = provider.model;
+    this.capabilities = provider.capabilities;
+    this.embeddingModel = provider.embeddingModel;
+    this.countsRequests = !provider.setRequestGate;
+    provider.setRequestGate?.((signal) => limiter.acquireRequest(signal));
+    if (provider.embed) {
+      const embed = provider.embed.bind(provider);
+      this.embed = (texts: readonly string[], options?: LLMEmbedOptions) =>
+        this.limited(
+          texts.reduce((total, text) => total + this.tokenizer.count(text), 0),
+          options?.signal,
+          (onResponse) => embed(texts, { ...options, onResponse: withListener(options?.onResponse, onResponse) })
+        );
+    }
+  }
+
+  generate(prompt: string, options?: LLMGenerateOptions): Promise<string> {
+    return this.limited(
+      this.tokenizer.count(prompt) + (options?.maxTokens ?? 0),
+      options?.signal,
+      (onResponse) => this.provider.generate(prompt, { ...options, onResponse: withListener(options?.onResponse, onResponse) })
+    );
+  }
+
+  chat(messages: readonly LLMMessage[], options?: LLMGenerateOptions): Promise<LLMResponse> {
+    return this.limited(
+      this.messageTokens(messages) + (options?.maxTokens ?? 0),
+      options?.signal,
+      (onResponse) => this.provider.chat(messages, { ...options, onResponse: withListener(options?.onResponse, onResponse) })
+    );
+  }
+
+  async *stream(prompt: string, options?: LLMGenerateOptions): AsyncGenerator<string, void, undefined> {
+    const usage = new UsageTally();
+    const permit = await this.limiter.acquire(
+      this.tokenizer.count(prompt) + (options?.maxTokens ?? 0),
+      options?.signal,
+      this.countsRequests
+    );
+    try {
+      yield* this.provider.stream(prompt, { ...options, onResponse: withListener(options?.onResponse, usage.listener) });
+    } finally {
+      permit.release(usage.total);
+    }
+  }
+
+  toolCall(request: LLMToolCallRequest): Promise<LLMToolCallResult> {
+    const estimate = request.messages ? this.messageTokens(request.messages) : this.tokenizer.count(request.prompt ?? "");
+    return this.limited(estimate, request.signal, (onResponse) =>
+      this.provider.toolCall({ ...request, onResponse: withListener(request.onResponse, onResponse) })
+    );
+  }
+
+  structuredOutput<T>(request: LLMStructuredOutputRequest): Promise<T> {
+    const estimate = this.tokenizer.count(request.prompt) + this.tokenizer.count(JSON.stringify(request.schema));
+    return this.limited(estimate, request.signal, (onResponse) =>
+      this.provider.structuredOutput<T>({ ...request, onResponse: withListener(request.onResponse, onResponse) })
+    );
+  }
+
+  private messageTokens(messages: readonly LLMMessage[]): number {
+    return messages.reduce((total, message) => total + this.tokenizer.count(message.content), 0);
+  }
+
+  private async limited<T>(
+    estimatedTokens: number,
+    signal: AbortSignal | undefined,
+    call: (onResponse: LLMResponseListener) => Promise<T>
+  ): Promise<T> {
+    const usage = new UsageTally();
+    const permit = await this.limiter.acquire(estimatedTokens, signal, this.countsRequests);
+    try {
+      return await call(usage.listener);
+    } finally {
+      permit.release(usage.total);
+    }
+  }
+}
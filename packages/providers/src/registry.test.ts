@@ -0,0 +1,119 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GroqProvider, OpenAICompatibleProvider, ProviderRegistry, createProviderRegistry, type LLMProvider } from "./index.js";
+
+describe("ProviderRegistry", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "fusy-registry-"));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    delete process.env.GROQ_API_KEY;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("creates built-in adapters by name with their default models", () => {
+    const registry = new ProviderRegistry();
+
+    const groq = registry.create("groq");
+    expect(groq).toBeInstanceOf(GroqProvider);
+    expect(groq.model).toBe("llama-3.3-70b-versatile");
+    expect(registry.create("gemini", { model: "gemini-2.0-flash" }).model).toBe("gemini-2.0-flash");
+    expect(registry.list().map((registration) => registration.name)).toEqual([
+      "gemini",
+      "groq",
+      "anthropic",
+      "openai-compatible"
+    ]);
+    expect(() => registry.create("missing")).toThrow("Unknown provider missing; registered: gemini, groq, anthropic, openai-compatible");
+  });
+
+  it("registers custom adapters and refuses silent overrides", () => {
+    const gateway = { name: "gateway", model: "gateway-large" } as LLMProvider;
+    const registry = new ProviderRegistry().register({
+      name: "gateway",
+      defaultModel: "gateway-large",
+      capabilities: { toolCalling: false },
+      create: () => gateway
+    });
+
+    expect(registry.create("gateway")).toBe(gateway);
+    expect(() => registry.register({ ...registry.get("gateway")!, defaultModel: "other" })).toThrow("already registered");
+    registry.register({ ...registry.get("gateway")!, defaultModel: "other" }, { replace: true });
+    expect(registry.get("gateway")?.defaultModel).toBe("other");
+  });
+
+  it("declares an OpenAI-style gateway from config without code", async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: "hello from the gateway" } }] })
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const registry = await createProviderRegistry({
+      providers: [
+        {
+          name: "corp-gateway",
+          extends: "openai-compatible",
+          defaultModel: "corp-large",
+          capabilities: { vision: true, maxContextTokens: 64_000 },
+          options: { baseUrl: "https://llm.corp.internal/v1", apiKey: "corp-key" }
+        }
+      ]
+    });
+    const provider = registry.create("corp-gateway");
+
+    expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+    expect(provider).toMatchObject({ name: "corp-gateway", model: "corp-large" });
+    expect(provider.capabilities).toMatchObject({ vision: true, maxContextTokens: 64_000, toolCalling: true });
+    await expect(provider.generate("hi")).resolves.toBe("hello from the gateway");
+    const [url, init] = fetchMock.mock.calls[0] as [string, { headers: Record<string, string> }];
+    expect(url).toBe("https://llm.corp.internal/v1/chat/completions");
+    expect(init.headers.authorization).toBe("Bearer corp-key");
+    await expect(registry.create("corp-gateway").embed?.(["x"])).rejects.toMatchObject({ provider: "corp-gateway" });
+  });
+
+  it("loads registrations from plugin modules", async () => {
+    await writeFile(
+      path.join(dir, "plugin.mjs"),
+      [
+        "export const providers = [{",
+        '  name: "plugin-provider",',
+        '  defaultModel: "plugin-model",',
+        "  capabilities: {},",
+        "  create: (model) => ({ name: \"plugin-provider\", model })",
+        "}];"
+      ].join("\n")
+    );
+    await writeFile(path.join(dir, "broken.mjs"), "export default 42;\n");
+
+    const registry = await createProviderRegistry({ plugins: ["./plugin.mjs"] }, dir);
+
+    expect(registry.create("plugin-provider")).toEqual({ name: "plugin-provider", model: "plugin-model" });
+    await expect(registry.load(path.join(dir, "broken.mjs"))).rejects.toThrow("must export provider registrations");
+  });
+
+  it("resolves plugin package names from the project directory", async () => {
+    const packageDir = path.join(dir, "node_modules", "fusy-provider-acme");
+    await mkdir(packageDir, { recursive: true });
+    await writeFile(
+      path.join(packageDir, "package.json"),
+      JSON.stringify({ name: "fusy-provider-acme", type: "module", main: "index.js" })
+    );
+    await writeFile(
+      path.join(packageDir, "index.js"),
+      'export default { name: "acme", defaultModel: "acme-1", capabilities: {}, create: (model) => ({ name: "acme", model }) };\n'
+    );
+
+    const registry = new ProviderRegistry();
+    await registry.load("fusy-provider-acme", dir);
+
+    expect(registry.create("acme")).toEqual({ name: "acme", model: "acme-1" });
+    await expect(registry.load("fusy-provider-missing", dir)).rejects.toThrow(/Cannot find module/);
+  });
+});
@@ -0,0 +1,181 @@
+import { createRequire } from "node:module";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import {
+  AnthropicProvider,
+  GeminiProvider,
+  GroqProvider,
+  OpenAICompatibleProvider,
+  type HttpProviderOptions,
+  type LLMCapabilities,
+  type LLMProvider,
+  type ProviderName
+} from "./index.js";
+
+/** Adapter-specific settings; the built-in adapters read `HttpProviderOptions` (plus `embeddingModel`, `capabilities`, ...). */
+export type ProviderCreateOptions = HttpProviderOptions & Readonly<Record<string, unknown>>;
+
+export interface ProviderRegistration {
+  readonly name: ProviderName;
+  /** Model created when the caller does not pick one. */
+  readonly defaultModel: string;
+  /** What `defaultModel` supports, so callers can choose providers before creating any. */
+  readonly capabilities: Partial<LLMCapabilities>;
+  readonly create: (model: string, options: ProviderCreateOptions) => LLMProvider;
+}
+
+/**
+ * Declares a provider without code by reusing a registered factory, e.g. an internal gateway
+ * that speaks the OpenAI protocol. Renaming takes effect for adapters that accept a `name`
+ * option, which `openai-compatible` does.
+ */
+export interface ProviderConfigEntry {
+  readonly name: ProviderName;
+  readonly extends: ProviderName;
+  readonly defaultModel?: string;
+  readonly capabilities?: Partial<LLMCapabilities>;
+  readonly options?: Readonly<Record<string, unknown>>;
+}
+
+/** What a provider plugin module exports, as `default` or as a named `providers` export. */
+export type ProviderPluginExports = ProviderRegistration | readonly ProviderRegistration[];
+
+const isRegistration = (value: unknown): value is ProviderRegistration =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as ProviderRegistration).name === "string" &&
+  typeof (value as ProviderRegistration).create === "function";
+
+export const BUILT_IN_PROVIDERS: readonly ProviderRegistration[] = [
+  {
+    name: "gemini",
+    defaultModel: "gemini-1.5-flash",
+    capabilities: { toolCalling: true, structuredOutput: true, vision: true, embeddings: true, maxContextTokens: 1_000_000 },
+    create: (model, options) => new GeminiProvider(model, options)
+  },
+  {
+    name: "groq",
+    defaultModel: "llama-3.3-70b-versatile",
+    capabilities: { toolCalling: true, structuredOutput: true, vision: false, embeddings: false, maxContextTokens: 128_000 },
+    create: (model, options) => new GroqProvider(model, options)
+  },
+  {
+    name: "anthropic",
+    defaultModel: "claude-3-5-sonnet-latest",
+    capabilities: { toolCalling: true, structuredOutput: true, vision: true, embeddings: false, maxContextTokens: 200_000 },
+    create: (model, options) => new AnthropicProvider(model, options)
+  },
+  {
+    name: "openai-compatible",
+    defaultModel: "llama3.1",
+    capabilities: { toolCalling: true, structuredOutput: true, vision: false, maxContextTokens: 32_000 },
+    create: (model, options) => new OpenAICompatibleProvider({ ...options, model })
+  }
+];
+
+/**
+ * Maps provider names to factories. Adapters register in code, from config entries that reuse
+ * another factory, or from plugin modules, so new providers need no change to this package.
+ */
+export class ProviderRegistry {
+  private readonly registrations = new Map<ProviderName, ProviderRegistration>();
+
+  constructor(registrations: readonly ProviderRegistration[] = BUILT_IN_PROVIDERS) {
+    registrations.forEach((registration) => this.register(registration));
+  }
+
+  /** Adds a provider; pass `replace` to swap out an existing registration such as a built-in. */
+  register(registration: ProviderRegistration, options: { replace?: boolean } = {}): this {
+    if (this.registrations.has(registration.name) && !options.replace) {
+      throw new Error(`Provider ${registration.name} is already registered`);
+    }
+
+    this.registrations.set(registration.name, registration);
+    return this;
+  }
+
+  registerFromConfig(entry: ProviderConfigEntry): this {
+    const base = this.require(entry.extends);
+    return this.register({
+      name: entry.name,
+      defaultModel: entry.defaultModel ?? base.defaultModel,
+      capabilities: { ...base.capabilities, ...entry.capabilities },
+      create: (model, options) =>
+        base.create(model, {
+          ...entry.options,
+          ...options,
+          name: entry.name,
+          capabilities: { ...entry.capabilities, ...(options.capabilities as Partial<LLMCapabilities> | undefined) }
+        })
+    });
+  }
+
+  /**
+   * Imports a plugin module and registers what it exports. Relative paths resolve against `cwd`,
+   * and package names against the `node_modules` of the project in `cwd`, not of this package.
+   */
+  async load(specifier: string, cwd = process.cwd()): Promise<readonly ProviderRegistration[]> {
+    const resolved =
+      specifier.startsWith(".") || path.isAbsolute(specifier)
+        ? path.resolve(cwd, specifier)
+        : createRequire(path.join(path.resolve(cwd), "package.json")).resolve(specifier);
+    const url = pathToFileURL(resolved).href;
+    const module = (await import(url)) as { default?: unknown; providers?: unknown };
+    const exported = module.providers ?? module.default;
+    const registrations = Array.isArray(exported) ? exported : [exported];
+
+    if (registrations.length === 0 || !registrations.every(isRegistration)) {
+      throw new Error(`Provider plugin ${specifier} must export provider registrations as default or \`providers\``);
+    }
+
+    registrations.forEach((registration) => this.register(registration));
+    return registrations;
+  }
+
+  has(name: ProviderName): boolean {
+    return this.registrations.has(name);
+  }
+
+  get(name: ProviderName): ProviderRegistration | undefined {
+    return this.registrations.get(name);
+  }
+
+  list(): readonly ProviderRegistration[] {
+    return [...this.registrations.values()];
+  }
+
+  create(name: ProviderName, options: { model?: string } & ProviderCreateOptions = {}): LLMProvider {
+    const registration = this.require(name);
+    const { model, ...createOptions } = options;
+    return registration.create(model ?? registration.defaultModel, createOptions);
+  }
+
+  private require(name: ProviderName): ProviderRegistration {
+    const registration = this.registrations.get(name);
+    if (!registration) {
+      throw new Error(`Unknown provider ${name}; registered: ${[...this.registrations.keys()].join(", ")}`);
+    }
+
+    return registration;
+  }
+}
+
+export interface ProviderRegistryConfig {
+  /** Plugin module specifiers, loaded before `providers` so entries can extend plugin adapters. */
+  readonly plugins?: readonly string[];
+  readonly providers?: readonly ProviderConfigEntry[];
+}
+
+/** Built-in adapters plus everything `config` declares, e.g. from `FUSY_PROVIDER_PLUGINS` and `FUSY_PROVIDERS`. */
+export const createProviderRegistry = async (
+  config: ProviderRegistryConfig = {},
+  cwd = process.cwd()
+): Promise<ProviderRegistry> => {
+  const registry = new ProviderRegistry();
+  for (const plugin of config.plugins ?? []) {
+    await registry.load(plugin, cwd);
+  }
+
+  (config.providers ?? []).forEach((entry) => registry.registerFromConfig(entry));
+  return registry;
+};
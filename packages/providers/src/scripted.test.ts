@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from "vitest";
+import { ProviderError, ScriptedProvider } from "./index.js";
+
+describe("ScriptedProvider", () => {
+  it("answers calls from its script in order and records every prompt", async () => {
+    const provider = new ScriptedProvider({
+      name: "groq",
+      steps: [
+        { text: "plan ready", usage: { inputTokens: 12, outputTokens: 3 } },
+        { chunks: ["str", "eamed"] },
+        { toolCalls: [{ id: "call-1", toolName: "readFile", arguments: { path: "a.ts" } }] },
+        { output: { files: ["a.ts"] } },
+        { embeddings: [[1, 0]] },
+        (call) => ({ text: `echo: ${call.prompt}` })
+      ]
+    });
+    const onResponse = vi.fn();
+
+    await expect(provider.generate("plan it", { onResponse })).resolves.toBe("plan ready");
+    const chunks: string[] = [];
+    for await (const chunk of provider.stream("stream it")) {
+      chunks.push(chunk);
+    }
+    const toolCall = await provider.toolCall({ messages: [{ role: "user", content: "read a.ts" }], tools: [] });
+    const output = await provider.structuredOutput<{ files: string[] }>({ prompt: "list files", schema: {} });
+    const vectors = await provider.embed(["a.ts"]);
+    const chat = await provider.chat([{ role: "user", content: "hi" }]);
+
+    expect(onResponse).toHaveBeenCalledWith({
+      provider: "groq",
+      model: "groq-scripted",
+      usage: { inputTokens: 12, outputTokens: 3 },
+      finishReason: "stop",
+      rawFinishReason: undefined
+    });
+    expect(chunks).toEqual(["str", "eamed"]);
+    expect(toolCall).toMatchObject({ toolName: "readFile", arguments: { path: "a.ts" }, rawText: "" });
+    expect(output).toEqual({ files: ["a.ts"] });
+    expect(vectors).toEqual([[1, 0]]);
+    expect(chat).toMatchObject({ text: "echo: hi", finishReason: "stop" });
+    expect(provider.prompts).toEqual(["plan it", "stream it", "read a.ts", "list files", "a.ts", "hi"]);
+    expect(provider.calls.map((call) => call.operation)).toEqual(["generate", "stream", "toolCall", "structuredOutput", "embed", "chat"]);
+    expect(provider.remaining).toBe(0);
+  });
+
+  it("throws injected errors and fails on truncated or blocked output like real adapters", async () => {
+    const provider = new ScriptedProvider({
+      steps: [
+        { error: new ProviderError({ provider: "scripted", code: "RATE_LIMIT", message: "slow down", retryable: true }) },
+        { text: "Once upon", finishReason: "length" },
+        { text: "", finishReason: "content_filter", rawFinishReason: "SAFETY" },
+        { text: "cut", finishReason: "length" }
+      ]
+    });
+
+    await expect(provider.generate("a")).rejects.toMatchObject({ code: "RATE_LIMIT", retryable: true });
+    await expect(provider.generate("b")).rejects.toMatchObject({ code: "OUTPUT_TRUNCATED", partialText: "Once upon" });
+    await expect(provider.generate("c")).rejects.toMatchObject({ code: "CONTENT_FILTERED", rawFinishReason: "SAFETY" });
+    await expect(provider.chat([{ role: "user", content: "d" }])).resolves.toMatchObject({ text: "cut", finishReason: "length" });
+  });
+
+  it("fails loudly when the script runs out or does not fit the call", async () => {
+    const provider = new ScriptedProvider({ name: "gemini", steps: [{ embeddings: [[1]] }] });
+
+    await expect(provider.generate("hello")).rejects.toThrow("cannot answer generate with a embeddings step");
+    await expect(provider.generate("again")).rejects.toThrow("ScriptedProvider gemini has no step left for generate call 2");
+  });
+
+  it("rejects calls whose signal is already aborted without consuming a step", async () => {
+    const provider = new ScriptedProvider({ steps: [{ text: "unused" }] });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(provider.generate("hello", { signal: controller.signal })).rejects.toMatchObject({ code: "CANCELLED" });
+    expect(provider.remaining).toBe(1);
+    expect(provider.prompts).toEqual(["hello"]);
+  });
+});
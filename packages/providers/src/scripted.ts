@@ -0,0 +1,251 @@
+import {
+  ProviderError,
+  assertCompleteOutput,
+  type LLMCapabilities,
+  type LLMEmbedOptions,
+  type LLMFinishReason,
+  type LLMGenerateOptions,
+  type LLMMessage,
+  type LLMProvider,
+  type LLMResponse,
+  type LLMResponseListener,
+  type LLMResponseMetadata,
+  type LLMStructuredOutputRequest,
+  type LLMToolCall,
+  type LLMToolCallRequest,
+  type LLMToolCallResult,
+  type LLMUsage,
+  type ProviderName
+} from "./index.js";
+
+export type ScriptedOperation = "generate" | "chat" | "stream" | "toolCall" | "structuredOutput" | "embed";
+
+/** Usage and finish reason reported through `onResponse`; defaults to zero usage and a normal stop. */
+interface ScriptedResponseMetadata {
+  readonly usage?: LLMUsage;
+  readonly finishReason?: LLMFinishReason;
+  readonly rawFinishReason?: string;
+}
+
+/**
+ * One canned answer. `text` and `chunks` answer any text operation, `toolCalls` answers tool calls
+ * and `chat`, `output` answers structured output, `embeddings` answers `embed`, and `error` is
+ * thrown from whichever operation consumes it. A function step builds its answer from the call.
+ */
+export type ScriptedStep =
+  | (ScriptedResponseMetadata & { readonly text: string })
+  | (ScriptedResponseMetadata & { readonly chunks: readonly string[] })
+  | (ScriptedResponseMetadata & { readonly toolCalls: readonly LLMToolCall[]; readonly text?: string })
+  | (ScriptedResponseMetadata & { readonly output: unknown })
+  | (Pick<ScriptedResponseMetadata, "usage"> & { readonly embeddings: readonly number[][] })
+  | { readonly error: Error }
+  | ((call: ScriptedCall) => ScriptedStep | Promise<ScriptedStep>);
+
+/** A call the provider received, recorded before its step is consumed. */
+export interface ScriptedCall {
+  readonly operation: ScriptedOperation;
+  /** The prompt, or the message contents (or embedded texts) joined by newlines. */
+  readonly prompt: string;
+  readonly messages?: readonly LLMMessage[];
+  readonly texts?: readonly string[];
+  readonly options?: LLMGenerateOptions | LLMToolCallRequest | LLMStructuredOutputRequest | LLMEmbedOptions;
+}
+
+export interface ScriptedProviderOptions {
+  readonly name?: ProviderName;
+  readonly model?: string;
+  readonly embeddingModel?: string;
+  /** Merged over capabilities that support everything, so routing tests only narrow what matters. */
+  readonly capabilities?: Partial<LLMCapabilities>;
+  readonly steps?: readonly ScriptedStep[];
+}
+
+type ResolvedStep = Exclude<ScriptedStep, (call: ScriptedCall) => unknown>;
+
+const joinContents = (messages: readonly LLMMessage[]): string => messages.map((message) => message.content).join("\n");
+
+/**
+ * Deterministic test double that answers calls from a queue of scripted steps, in order, and
+ * records every call for assertions. Running out of steps, or a step that cannot answer the
+ * operation, fails the test loudly instead of returning a placeholder.
+ */
+export class ScriptedProvider implements LLMProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  readonly embeddingModel: string;
+  readonly capabilities: LLMCapabilities;
+  readonly calls: ScriptedCall[] = [];
+  private readonly steps: ScriptedStep[];
+
+  constructor(options: ScriptedProviderOptions = {}) {
+    this.name = options.name ?? "scripted";
+    this.model = options.model ?? `${this.name}-scripted`;
+    this.embeddingModel = options.embeddingModel ?? `${this.model}-embedding`;
+    this.capabilities = {
+      streaming: true,
+      toolCalling: true,
+      structuredOutput: true,
+      maxContextTokens: 128_000,
+      preferredForLowLatency: false,
+      preferredForLowCost: false,
+      vision: true,
+      embeddings: true,
+      ...options.capabilities
+    };
+    this.steps = [...(options.steps ?? [])];
+  }
+
+  /** Prompts of every recorded call, in order. */
+  get prompts(): string[] {
+    return this.calls.map((call) => call.prompt);
+  }
+
+  /** Steps not yet consumed; assert 0 to check a workflow used its whole script. */
+  get remaining(): number {
+    return this.steps.length;
+  }
+
+  enqueue(...steps: ScriptedStep[]): this {
+    this.steps.push(...steps);
+    return this;
+  }
+
+  async generate(prompt: string, options?: LLMGenerateOptions): Promise<string> {
+    const step = await this.next({ operation: "generate", prompt, options });
+    const text = this.toText(step, "generate");
+    assertCompleteOutput(this.report(step, options?.onResponse), text, options?.allowTruncation);
+    return text;
+  }
+
+  async chat(messages: readonly LLMMessage[], options?: LLMGenerateOptions): Promise<LLMResponse> {
+    const step = await this.next({ operation: "chat", prompt: joinContents(messages), messages, options });
+    const text = "toolCalls" in step ? (step.text ?? "") : this.toText(step, "chat");
+    return { ...this.report(step, options?.onResponse), text };
+  }
+
+  async *stream(prompt: string, options?: LLMGenerateOptions): AsyncGenerator<string, void, undefined> {
+    const step = await this.next({ operation: "stream", prompt, options });
+    const chunks = "chunks" in step ? step.chunks : [this.toText(step, "stream")];
+    for (const chunk of chunks) {
+      this.throwIfAborted(options?.signal);
+      yield chunk;
+    }
+
+    assertCompleteOutput(this.report(step, options?.onResponse), chunks.join(""), options?.allowTruncation);
+  }
+
+  async toolCall(request: LLMToolCallRequest): Promise<LLMToolCallResult> {
+    const prompt = request.messages ? joinContents(request.messages) : (request.prompt ?? "");
+    const step = await this.next({ operation: "toolCall", prompt, messages: request.messages, options: request });
+    if (!("toolCalls" in step)) {
+      throw this.mismatch(step, "toolCall");
+    }
+
+    const rawText = step.text ?? "";
+    assertCompleteOutput(this.report(step, request.onResponse), rawText);
+    const [first] = step.toolCalls;
+    if (!first) {
+      throw new ProviderError({ provider: this.name, code: "INVALID_REQUEST", message: `No tool call returned from ${this.name}` });
+    }
+
+    return { toolName: first.toolName, arguments: first.arguments, rawText, calls: step.toolCalls };
+  }
+
+  async structuredOutput<T>(request: LLMStructuredOutputRequest): Promise<T> {
+    const step = await this.next({ operation: "structuredOutput", prompt: request.prompt, options: request });
+    if ("output" in step) {
+      this.report(step, request.onResponse);
+      return step.output as T;
+    }
+
+    const text = this.toText(step, "structuredOutput");
+    assertCompleteOutput(this.report(step, request.onResponse), text);
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      throw new ProviderError({
+        provider: this.name,
+        code: "INVALID_REQUEST",
+        message: `${this.name} produced malformed JSON for structured output`,
+        validationErrors: [{ path: "$", expected: "valid JSON object", received: text }]
+      });
+    }
+  }
+
+  async embed(texts: readonly string[], options?: LLMEmbedOptions): Promise<number[][]> {
+    const step = await this.next({ operation: "embed", prompt: texts.join("\n"), texts, options });
+    if (!("embeddings" in step)) {
+      throw this.mismatch(step, "embed");
+    }
+
+    this.report(step, options?.onResponse, this.embeddingModel);
+    return step.embeddings.map((vector) => [...vector]);
+  }
+
+  private async next(call: ScriptedCall): Promise<ResolvedStep> {
+    this.calls.push(call);
+    this.throwIfAborted(call.options?.signal);
+
+    const step = this.steps.shift();
+    if (!step) {
+      throw new Error(`ScriptedProvider ${this.name} has no step left for ${call.operation} call ${this.calls.length}`);
+    }
+
+    let resolved = step;
+    while (typeof resolved === "function") {
+      resolved = await resolved(call);
+    }
+
+    if ("error" in resolved) {
+      throw resolved.error;
+    }
+
+    return resolved;
+  }
+
+  private toText(step: ResolvedStep, operation: ScriptedOperation): string {
+    if ("text" in step && !("toolCalls" in step)) {
+      return step.text;
+    }
+
+    if ("chunks" in step) {
+      return step.chunks.join("");
+    }
+
+    if ("output" in step) {
+      return JSON.stringify(step.output);
+    }
+
+    throw this.mismatch(step, operation);
+  }
+
+  private report(step: ResolvedStep, listener: LLMResponseListener | undefined, model = this.model): LLMResponseMetadata {
+    const scripted = step as ScriptedResponseMetadata;
+    const metadata: LLMResponseMetadata = {
+      provider: this.name,
+      model,
+      usage: scripted.usage ?? { inputTokens: 0, outputTokens: 0 },
+      finishReason: scripted.finishReason ?? ("toolCalls" in step ? "tool_calls" : "stop"),
+      rawFinishReason: scripted.rawFinishReason
+    };
+
+    listener?.(metadata);
+    return metadata;
+  }
+
+  private throwIfAborted(signal: AbortSignal | undefined): void {
+    if (signal?.aborted) {
+      throw new ProviderError({
+        provider: this.name,
+        code: "CANCELLED",
+        message: `${this.name} request was cancelled`,
+        retryable: false,
+        cause: signal.reason
+      });
+    }
+  }
+
+  private mismatch(step: ResolvedStep, operation: ScriptedOperation): Error {
+    return new Error(`ScriptedProvider ${this.name} cannot answer ${operation} with a ${Object.keys(step).join("/")} step`);
+  }
+}
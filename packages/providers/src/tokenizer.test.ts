@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+
+import { DEFAULT_TOKENIZER, EstimatingTokenizer, TokenizerRegistry, truncateToTokens, type Tokenizer } from "./index.js";
+
+describe("tokenizers", () => {
+  it("counts words, digits, punctuation and CJK text per model family", () => {
+    const tokenizers = new TokenizerRegistry();
+    const llama = tokenizers.get("groq", "llama-3.3-70b-versatile");
+    const gemini = tokenizers.get("gemini", "gemini-1.5-flash");
+
+    expect(llama.count("The quick brown fox jumps over the lazy dog.")).toBe(10);
+    expect(llama.count("internationalization")).toBe(4);
+    expect(llama.count("2024")).toBe(2);
+    expect(gemini.count("2024")).toBe(4);
+    expect(llama.count("if (ready) {\n    start();\n}")).toBe(13);
+    expect(llama.count("日本語のテキスト")).toBe(8);
+    expect(llama.count("")).toBe(0);
+  });
+
+  it("resolves exact models before provider defaults and the generic estimator", () => {
+    const exact: Tokenizer = { name: "exact", count: (text) => text.split(" ").length };
+    const tokenizers = new TokenizerRegistry({ "groq:llama-3.1-8b-instant": exact });
+
+    expect(tokenizers.get("groq", "llama-3.1-8b-instant")).toBe(exact);
+    expect(tokenizers.get("groq", "mixtral-8x7b").name).toBe("llama3");
+    expect(tokenizers.get("anthropic", "claude-3-5-haiku").name).toBe("claude");
+    expect(tokenizers.get("corp-gateway", "corp-large")).toBe(DEFAULT_TOKENIZER);
+  });
+
+  it("truncates to a token budget from either end", () => {
+    const tokenizer = new EstimatingTokenizer("words", { charsPerWordToken: 100, digitsPerToken: 1, tokensPerCjkChar: 1 });
+    const text = "alpha beta gamma delta epsilon";
+
+    expect(truncateToTokens(tokenizer, text, 2)).toBe("alpha beta ");
+    expect(truncateToTokens(tokenizer, text, 2, "end")).toBe(" delta epsilon");
+    expect(truncateToTokens(tokenizer, text, 10)).toBe(text);
+    expect(truncateToTokens(tokenizer, text, 0)).toBe("");
+  });
+});
@@ -0,0 +1,116 @@
+import type { ProviderName } from "./index.js";
+
+export interface Tokenizer {
+  readonly name: string;
+  count(text: string): number;
+}
+
+/** Tokenizer granularity that `EstimatingTokenizer` models for one model family. */
+export interface TokenEstimatorProfile {
+  /** Letters per token inside one word; longer words split into several tokens. */
+  readonly charsPerWordToken: number;
+  /** Digits per token; SentencePiece vocabularies split numbers into single digits. */
+  readonly digitsPerToken: number;
+  /** Tokens per Han, kana or Hangul character. */
+  readonly tokensPerCjkChar: number;
+}
+
+const CJK = "\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}";
+
+// CJK characters, words, digit runs, newline runs, space runs and single punctuation marks.
+const PIECES = new RegExp(`([${CJK}])|((?:(?![${CJK}])\\p{L})+)|(\\p{N}+)|(\\n+)|([^\\S\\n]+)|.`, "gsu");
+
+/**
+ * Approximates a BPE or SentencePiece tokenizer by splitting text the way those vocabularies
+ * do (words, digit groups, punctuation, whitespace) instead of dividing the character count.
+ * Counts are estimates; register an exact tokenizer where a model needs one.
+ */
+export class EstimatingTokenizer implements Tokenizer {
+  constructor(
+    readonly name: string,
+    private readonly profile: TokenEstimatorProfile
+  ) {}
+
+  count(text: string): number {
+    const { charsPerWordToken, digitsPerToken, tokensPerCjkChar } = this.profile;
+    let tokens = 0;
+
+    for (const [, cjk, word, digits, , spaces] of text.matchAll(PIECES)) {
+      if (cjk) {
+        tokens += tokensPerCjkChar;
+      } else if (word) {
+        tokens += Math.ceil(word.length / charsPerWordToken);
+      } else if (digits) {
+        tokens += Math.ceil(digits.length / digitsPerToken);
+      } else if (spaces) {
+        // A single space merges into the following word; indentation becomes whitespace tokens.
+        tokens += spaces.length > 1 ? Math.ceil(spaces.length / 8) : 0;
+      } else {
+        tokens += 1;
+      }
+    }
+
+    return Math.ceil(tokens);
+  }
+}
+
+/** Conservative estimator for models without a known tokenizer family. */
+export const DEFAULT_TOKENIZER: Tokenizer = new EstimatingTokenizer("generic", {
+  charsPerWordToken: 4,
+  digitsPerToken: 2,
+  tokensPerCjkChar: 1.5
+});
+
+const LLAMA3_TOKENIZER = new EstimatingTokenizer("llama3", { charsPerWordToken: 6, digitsPerToken: 3, tokensPerCjkChar: 1 });
+
+/** Tokenizers keyed by `provider:model`; `provider:*` covers every model of a provider. */
+export type TokenizerTable = Record<string, Tokenizer>;
+
+export const DEFAULT_TOKENIZERS: TokenizerTable = {
+  "gemini:*": new EstimatingTokenizer("gemini", { charsPerWordToken: 6, digitsPerToken: 1, tokensPerCjkChar: 1 }),
+  "groq:*": LLAMA3_TOKENIZER,
+  "anthropic:*": new EstimatingTokenizer("claude", { charsPerWordToken: 5, digitsPerToken: 3, tokensPerCjkChar: 1.2 }),
+  "openai-compatible:*": LLAMA3_TOKENIZER
+};
+
+export class TokenizerRegistry {
+  private readonly table: TokenizerTable;
+
+  constructor(overrides: TokenizerTable = {}) {
+    this.table = { ...DEFAULT_TOKENIZERS, ...overrides };
+  }
+
+  /** Resolves by exact `provider:model`, then `provider:*`, then `DEFAULT_TOKENIZER`. */
+  get(provider: ProviderName, model: string): Tokenizer {
+    return this.table[`${provider}:${model}`] ?? this.table[`${provider}:*`] ?? DEFAULT_TOKENIZER;
+  }
+}
+
+/**
+ * Shortens `text` to at most `maxTokens`, keeping its start or its end. Searches on character
+ * length because token boundaries depend on the tokenizer.
+ */
+export const truncateToTokens = (
+  tokenizer: Tokenizer,
+  text: string,
+  maxTokens: number,
+  keep: "start" | "end" = "start"
+): string => {
+  const slice = (length: number): string => (keep === "start" ? text.slice(0, length) : text.slice(text.length - length));
+  if (tokenizer.count(text) <= maxTokens) {
+    return text;
+  }
+
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (tokenizer.count(slice(middle)) <= maxTokens) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return slice(low);
+};
@@ -5,3 +5,15 @@ export type Result<T> = {
 };
 
 export const ok = <T>(value: T): Result<T> => ({ ok: true, value });
+
+/** One provider call in the spend ledger, as written by `SpendingGuard` and stored by `SqliteMemoryStore`. */
+export interface SpendRecord {
+  readonly sessionId?: string;
+  readonly projectId?: string;
+  readonly provider: string;
+  readonly model: string;
+  readonly tokensIn: number;
+  readonly tokensOut: number;
+  readonly costUsd: number;
+  readonly recordedAt: number;
+}
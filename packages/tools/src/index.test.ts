@@ -2,12 +2,22 @@ import { mkdir, mkdtemp, readFile, writeFile } from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
 
-import { describe, expect, it } from "vitest";
-
-import { gitApplyPatch, runCommand, searchFiles } from "./index.js";
 import { execSync } from "node:child_process";
+import { createServer } from "node:http";
+
+import { describe, expect, it } from "vitest";
 
-import { gitApplyPatch, runCommand } from "./index.js";
+import {
+  browserScreenshot,
+  deployDocker,
+  executeTool,
+  fetchUrl,
+  gitApplyPatch,
+  gitStatus,
+  packageInstall,
+  runCommand,
+  searchFiles
+} from "./index.js";
 
 describe("policy engine", () => {
   it("blocks denied commands", async () => {
@@ -56,6 +66,72 @@ describe("policy engine", () => {
   });
 });
 
+describe("cancellation", () => {
+  it("kills a running command when the signal aborts", async () => {
+    const controller = new AbortController();
+    const startedAt = Date.now();
+    setTimeout(() => controller.abort(), 50);
+
+    await expect(runCommand("sleep 5", {}, process.cwd(), controller.signal)).rejects.toMatchObject({
+      code: "CANCELLED",
+      message: "Command cancelled: sleep 5"
+    });
+    expect(Date.now() - startedAt).toBeLessThan(2_000);
+  });
+
+  it("aborts a fetch that is still waiting for its response", async () => {
+    const server = createServer(() => undefined);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as { port: number };
+    const url = `http://127.0.0.1:${port}/slow`;
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    try {
+      await expect(
+        executeTool("fetchUrl", { url }, { cwd: process.cwd(), signal: controller.signal })
+      ).rejects.toMatchObject({ code: "CANCELLED", message: `Fetch cancelled: ${url}` });
+    } finally {
+      server.closeAllConnections();
+      server.close();
+    }
+  });
+
+  it("cancels git commands and fetches whose signal has already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(gitStatus(process.cwd(), controller.signal)).rejects.toMatchObject({
+      code: "CANCELLED",
+      message: "Command cancelled: git status --short"
+    });
+    await expect(fetchUrl("http://127.0.0.1:9/", controller.signal)).rejects.toMatchObject({ code: "CANCELLED" });
+  });
+
+  it("cancels package, browser and deploy commands with the signal", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(packageInstall("npm", ["left-pad"], process.cwd(), {}, controller.signal)).rejects.toMatchObject({
+      code: "CANCELLED",
+      message: "Command cancelled: npm install left-pad"
+    });
+    await expect(browserScreenshot("https://example.com", "shot.png", process.cwd(), {}, controller.signal)).rejects.toMatchObject({
+      code: "CANCELLED"
+    });
+    await expect(deployDocker("fusy:test", process.cwd(), {}, controller.signal)).rejects.toMatchObject({ code: "CANCELLED" });
+  });
+
+  it("does not start tools once the context signal has aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      executeTool("runCommand", { command: "echo hi" }, { cwd: process.cwd(), signal: controller.signal })
+    ).rejects.toMatchObject({ code: "CANCELLED", message: "Tool cancelled: runCommand" });
+  });
+});
+
 describe("diff application", () => {
   it("applies unified diff to repo", async () => {
     const repo = await mkdtemp(path.join(os.tmpdir(), "fusy-tools-"));
@@ -32,6 +32,18 @@ export interface RunCommandPolicy {
 export interface ToolExecutionContext {
   cwd: string;
   policy?: RunCommandPolicy;
+  /** Stops spawned commands and prevents new tools from starting once aborted. */
+  signal?: AbortSignal;
+}
+
+/** Raised when an `AbortSignal` stops a tool; `code` matches the providers' `CANCELLED` error code. */
+export class ToolCancelledError extends Error {
+  readonly code = "CANCELLED";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ToolCancelledError";
+  }
 }
 
 export interface ToolDefinition<TArgs = Record<string, unknown>, TResult = unknown> {
@@ -206,10 +218,12 @@ const hasMetaOperators = (command: string): boolean => META_OPERATORS.some((oper
 const spawnCommand = async (
   file: string,
   args: readonly string[],
-  cwd: string
+  cwd: string,
+  signal?: AbortSignal
 ): Promise<{ stdout: string; stderr: string }> =>
   new Promise((resolve, reject) => {
-    const child = spawn(file, args, { cwd, stdio: ["ignore", "pipe", "pipe"] });
+    // With `signal`, Node kills the child on abort and reports an AbortError through "error".
+    const child = spawn(file, args, { cwd, signal, stdio: ["ignore", "pipe", "pipe"] });
     let stdout = "";
     let stderr = "";
 
@@ -221,7 +235,9 @@ const spawnCommand = async (
       stderr += chunk.toString();
     });
 
-    child.on("error", reject);
+    child.on("error", (error) => {
+      reject(signal?.aborted ? new ToolCancelledError(`Command cancelled: ${[file, ...args].join(" ")}`) : error);
+    });
 
     child.on("close", (code) => {
       if (code === 0) {
@@ -248,11 +264,33 @@ const isCommandAllowed = (bin: string, policy: RunCommandPolicy): boolean => {
   return allowed.includes(bin);
 };
 
+/** Runs `command` through the shell; aborting `signal` kills it and rejects with `ToolCancelledError`. */
+const execCancellable = async (
+  command: string,
+  cwd: string,
+  signal?: AbortSignal
+): Promise<{ stdout: string; stderr: string }> => {
+  try {
+    return await exec(command, { cwd, maxBuffer: 4 * 1024 * 1024, signal });
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new ToolCancelledError(`Command cancelled: ${command}`);
+    }
+
+    throw error;
+  }
+};
+
 const runCommandInternal = async (
   command: string,
   policy: RunCommandPolicy = {},
-  cwd: string = process.cwd()
+  cwd: string = process.cwd(),
+  signal?: AbortSignal
 ): Promise<{ stdout: string; stderr: string }> => {
+  if (signal?.aborted) {
+    throw new ToolCancelledError(`Command cancelled: ${command}`);
+  }
+
   const allowMetaOperators = policy.strictPolicy?.allowMetaOperators === true;
 
   if (hasMetaOperators(command) && !allowMetaOperators) {
@@ -278,11 +316,10 @@ const runCommandInternal = async (
       throw new Error("Command must not be empty");
     }
 
-    return spawnCommand(file, args, cwd);
+    return spawnCommand(file, args, cwd, signal);
   }
 
-  const { stdout, stderr } = await exec(command, { cwd, maxBuffer: 4 * 1024 * 1024 });
-
+  const { stdout, stderr } = await execCancellable(command, cwd, signal);
   return { stdout: stdout.trimEnd(), stderr: stderr.trimEnd() };
 };
 
@@ -517,61 +554,61 @@ export const extractImports = (input: string): string[] => {
 
 export const countLines = (input: string): number => input.split(/\r?\n/u).length;
 
-export const runLint = async (cwd = process.cwd(), policy: RunCommandPolicy = {}): Promise<string> => {
-  const result = await runCommand("pnpm lint", { ...policy, allowList: ["pnpm"] }, cwd);
+export const runLint = async (cwd = process.cwd(), policy: RunCommandPolicy = {}, signal?: AbortSignal): Promise<string> => {
+  const result = await runCommand("pnpm lint", { ...policy, allowList: ["pnpm"] }, cwd, signal);
   return result.stdout;
 };
 
-export const runTypecheck = async (cwd = process.cwd(), policy: RunCommandPolicy = {}): Promise<string> => {
-  const result = await runCommand("pnpm typecheck", { ...policy, allowList: ["pnpm"] }, cwd);
+export const runTypecheck = async (cwd = process.cwd(), policy: RunCommandPolicy = {}, signal?: AbortSignal): Promise<string> => {
+  const result = await runCommand("pnpm typecheck", { ...policy, allowList: ["pnpm"] }, cwd, signal);
   return result.stdout;
 };
 
 // Git tools
-export const gitStatus = async (cwd: string = process.cwd()): Promise<string> => {
-  const { stdout } = await exec("git status --short", { cwd, maxBuffer: 4 * 1024 * 1024 });
+export const gitStatus = async (cwd: string = process.cwd(), signal?: AbortSignal): Promise<string> => {
+  const { stdout } = await execCancellable("git status --short", cwd, signal);
   return stdout.trim();
 };
 
-export const gitDiff = async (cwd: string = process.cwd()): Promise<string> => {
-  const { stdout } = await exec("git diff", { cwd, maxBuffer: 4 * 1024 * 1024 });
+export const gitDiff = async (cwd: string = process.cwd(), signal?: AbortSignal): Promise<string> => {
+  const { stdout } = await execCancellable("git diff", cwd, signal);
   return stdout;
 };
 
-export const gitApplyPatch = async (patch: string, cwd: string = process.cwd()): Promise<void> => {
+export const gitApplyPatch = async (patch: string, cwd: string = process.cwd(), signal?: AbortSignal): Promise<void> => {
   const tempPatchFile = path.join(cwd, `.fusy-patch-${Date.now()}.patch`);
   await fs.writeFile(tempPatchFile, patch, "utf8");
 
   try {
-    await exec(`git apply --whitespace=nowarn "${tempPatchFile}"`, { cwd, maxBuffer: 4 * 1024 * 1024 });
+    await execCancellable(`git apply --whitespace=nowarn "${tempPatchFile}"`, cwd, signal);
   } finally {
     await fs.rm(tempPatchFile, { force: true });
   }
 };
 
-export const gitAdd = async (files: readonly string[] = ["."], cwd = process.cwd()): Promise<void> => {
+export const gitAdd = async (files: readonly string[] = ["."], cwd = process.cwd(), signal?: AbortSignal): Promise<void> => {
   const args = files.map((item) => `"${item}"`).join(" ");
-  await runCommand(`git add ${args}`, { allowList: ["git"] }, cwd);
+  await runCommand(`git add ${args}`, { allowList: ["git"] }, cwd, signal);
 };
 
-export const gitCommit = async (message: string, cwd = process.cwd()): Promise<void> => {
+export const gitCommit = async (message: string, cwd = process.cwd(), signal?: AbortSignal): Promise<void> => {
   const safeMessage = message.replaceAll('"', '\\"');
-  await runCommand(`git commit -m "${safeMessage}"`, { allowList: ["git"] }, cwd);
+  await runCommand(`git commit -m "${safeMessage}"`, { allowList: ["git"] }, cwd, signal);
 };
 
-export const gitLog = async (limit = 20, cwd = process.cwd()): Promise<string> => {
+export const gitLog = async (limit = 20, cwd = process.cwd(), signal?: AbortSignal): Promise<string> => {
   const safeLimit = Math.max(1, Math.min(200, limit));
-  const result = await runCommand(`git log --oneline -n ${safeLimit}`, { allowList: ["git"] }, cwd);
+  const result = await runCommand(`git log --oneline -n ${safeLimit}`, { allowList: ["git"] }, cwd, signal);
   return result.stdout;
 };
 
-export const gitBranchList = async (cwd = process.cwd()): Promise<string> => {
-  const result = await runCommand("git branch --all", { allowList: ["git"] }, cwd);
+export const gitBranchList = async (cwd = process.cwd(), signal?: AbortSignal): Promise<string> => {
+  const result = await runCommand("git branch --all", { allowList: ["git"] }, cwd, signal);
   return result.stdout;
 };
 
-export const gitCheckout = async (branch: string, cwd = process.cwd()): Promise<string> => {
-  const result = await runCommand(`git checkout ${branch}`, { allowList: ["git"] }, cwd);
+export const gitCheckout = async (branch: string, cwd = process.cwd(), signal?: AbortSignal): Promise<string> => {
+  const result = await runCommand(`git checkout ${branch}`, { allowList: ["git"] }, cwd, signal);
   return result.stdout;
 };
 
@@ -580,7 +617,8 @@ export const packageInstall = async (
   manager: "pnpm" | "npm" | "yarn",
   deps: readonly string[],
   cwd = process.cwd(),
-  policy: RunCommandPolicy = {}
+  policy: RunCommandPolicy = {},
+  signal?: AbortSignal
 ): Promise<string> => {
   const command =
     manager === "pnpm"
@@ -589,7 +627,7 @@ export const packageInstall = async (
         ? `yarn add ${deps.join(" ")}`
         : `npm install ${deps.join(" ")}`;
 
-  const result = await runCommand(command, { ...policy, allowList: [manager] }, cwd);
+  const result = await runCommand(command, { ...policy, allowList: [manager] }, cwd, signal);
   return result.stdout;
 };
 
@@ -597,7 +635,8 @@ export const packageRemove = async (
   manager: "pnpm" | "npm" | "yarn",
   deps: readonly string[],
   cwd = process.cwd(),
-  policy: RunCommandPolicy = {}
+  policy: RunCommandPolicy = {},
+  signal?: AbortSignal
 ): Promise<string> => {
   const command =
     manager === "pnpm"
@@ -606,7 +645,7 @@ export const packageRemove = async (
         ? `yarn remove ${deps.join(" ")}`
         : `npm uninstall ${deps.join(" ")}`;
 
-  const result = await runCommand(command, { ...policy, allowList: [manager] }, cwd);
+  const result = await runCommand(command, { ...policy, allowList: [manager] }, cwd, signal);
   return result.stdout;
 };
 
@@ -614,34 +653,54 @@ export const packageRunScript = async (
   manager: "pnpm" | "npm" | "yarn",
   script: string,
   cwd = process.cwd(),
-  policy: RunCommandPolicy = {}
+  policy: RunCommandPolicy = {},
+  signal?: AbortSignal
 ): Promise<string> => {
   const command = manager === "npm" ? `npm run ${script}` : `${manager} ${script}`;
-  const result = await runCommand(command, { ...policy, allowList: [manager] }, cwd);
+  const result = await runCommand(command, { ...policy, allowList: [manager] }, cwd, signal);
   return result.stdout;
 };
 
 // Web tools (no search APIs)
-export const fetchUrl = async (url: string): Promise<{ url: string; status: number; body: string }> => {
-  const response = await fetch(url);
-  const body = await response.text();
-  return { url, status: response.status, body };
-};
+/** Fetches `url` and reads it with `read`; aborting `signal` stops both and rejects with `ToolCancelledError`. */
+const fetchCancellable = async <T>(
+  url: string,
+  signal: AbortSignal | undefined,
+  read: (response: Response) => Promise<T>
+): Promise<T> => {
+  try {
+    return await read(await fetch(url, { signal }));
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new ToolCancelledError(`Fetch cancelled: ${url}`);
+    }
 
-export const downloadFile = async (url: string, outputPath: string): Promise<void> => {
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`Download failed with status ${response.status}`);
+    throw error;
   }
+};
 
-  const buffer = Buffer.from(await response.arrayBuffer());
+export const fetchUrl = async (url: string, signal?: AbortSignal): Promise<{ url: string; status: number; body: string }> =>
+  fetchCancellable(url, signal, async (response) => ({ url, status: response.status, body: await response.text() }));
+
+export const downloadFile = async (url: string, outputPath: string, signal?: AbortSignal): Promise<void> => {
+  const buffer = await fetchCancellable(url, signal, async (response) => {
+    if (!response.ok) {
+      throw new Error(`Download failed with status ${response.status}`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  });
   await fs.mkdir(path.dirname(outputPath), { recursive: true });
   await fs.writeFile(outputPath, buffer);
 };
 
-export const searchWeb = async (query: string, maxResults = 5): Promise<Array<{ title: string; url: string }>> => {
+export const searchWeb = async (
+  query: string,
+  maxResults = 5,
+  signal?: AbortSignal
+): Promise<Array<{ title: string; url: string }>> => {
   const endpoint = `https://duckduckgo.com/html/?q=${encodeURIComponent(query)}`;
-  const html = (await fetchUrl(endpoint)).body;
+  const html = (await fetchUrl(endpoint, signal)).body;
   const re = /<a[^>]*class="result__a"[^>]*href="([^"]+)"[^>]*>(.*?)<\/a>/gimu;
 
   const results: Array<{ title: string; url: string }> = [];
@@ -660,10 +719,11 @@ export const searchWeb = async (query: string, maxResults = 5): Promise<Array<{
 export const browserOpenUrl = async (
   url: string,
   cwd = process.cwd(),
-  policy: RunCommandPolicy = {}
+  policy: RunCommandPolicy = {},
+  signal?: AbortSignal
 ): Promise<string> => {
   const opener = process.platform === "darwin" ? "open" : "xdg-open";
-  const result = await runCommand(`${opener} "${url}"`, { ...policy, allowList: [opener] }, cwd);
+  const result = await runCommand(`${opener} "${url}"`, { ...policy, allowList: [opener] }, cwd, signal);
   return result.stdout;
 };
 
@@ -671,31 +731,33 @@ export const browserScreenshot = async (
   url: string,
   outPath: string,
   cwd = process.cwd(),
-  policy: RunCommandPolicy = {}
+  policy: RunCommandPolicy = {},
+  signal?: AbortSignal
 ): Promise<string> => {
   const command = `npx playwright screenshot --browser=chromium "${url}" "${outPath}"`;
-  const result = await runCommand(command, { ...policy, allowList: ["npx"] }, cwd);
+  const result = await runCommand(command, { ...policy, allowList: ["npx"] }, cwd, signal);
   return result.stdout;
 };
 
 // Cloud/deploy tools
-export const deployVercel = async (cwd = process.cwd(), policy: RunCommandPolicy = {}): Promise<string> => {
-  const result = await runCommand("npx vercel deploy --yes", { ...policy, allowList: ["npx"] }, cwd);
+export const deployVercel = async (cwd = process.cwd(), policy: RunCommandPolicy = {}, signal?: AbortSignal): Promise<string> => {
+  const result = await runCommand("npx vercel deploy --yes", { ...policy, allowList: ["npx"] }, cwd, signal);
   return result.stdout;
 };
 
-export const deployNetlify = async (cwd = process.cwd(), policy: RunCommandPolicy = {}): Promise<string> => {
-  const result = await runCommand("npx netlify deploy --prod", { ...policy, allowList: ["npx"] }, cwd);
+export const deployNetlify = async (cwd = process.cwd(), policy: RunCommandPolicy = {}, signal?: AbortSignal): Promise<string> => {
+  const result = await runCommand("npx netlify deploy --prod", { ...policy, allowList: ["npx"] }, cwd, signal);
   return result.stdout;
 };
 
 export const deployDocker = async (
   imageTag: string,
   cwd = process.cwd(),
-  policy: RunCommandPolicy = {}
+  policy: RunCommandPolicy = {},
+  signal?: AbortSignal
 ): Promise<string> => {
-  const build = await runCommand(`docker build -t ${imageTag} .`, { ...policy, allowList: ["docker"] }, cwd);
-  const push = await runCommand(`docker push ${imageTag}`, { ...policy, allowList: ["docker"] }, cwd);
+  const build = await runCommand(`docker build -t ${imageTag} .`, { ...policy, allowList: ["docker"] }, cwd, signal);
+  const push = await runCommand(`docker push ${imageTag}`, { ...policy, allowList: ["docker"] }, cwd, signal);
   return `${build.stdout}\n${push.stdout}`.trim();
 };
 
@@ -859,53 +921,53 @@ export const DEFAULT_TOOL_REGISTRY: Record<string, ToolDefinition> = {
   runLint: {
     name: "runLint",
     description: "Run lint via pnpm",
-    execute: async (_, context) => runLint(context.cwd, context.policy)
+    execute: async (_, context) => runLint(context.cwd, context.policy, context.signal)
   },
   runTypecheck: {
     name: "runTypecheck",
     description: "Run typecheck via pnpm",
-    execute: async (_, context) => runTypecheck(context.cwd, context.policy)
+    execute: async (_, context) => runTypecheck(context.cwd, context.policy, context.signal)
   },
   gitStatus: {
     name: "gitStatus",
     description: "Show git status",
-    execute: async (_, context) => gitStatus(context.cwd)
+    execute: async (_, context) => gitStatus(context.cwd, context.signal)
   },
   gitDiff: {
     name: "gitDiff",
     description: "Show git diff",
-    execute: async (_, context) => gitDiff(context.cwd)
+    execute: async (_, context) => gitDiff(context.cwd, context.signal)
   },
   gitApplyPatch: {
     name: "gitApplyPatch",
     description: "Apply patch text",
-    execute: async (args, context) => gitApplyPatch(String(args.patch ?? ""), context.cwd)
+    execute: async (args, context) => gitApplyPatch(String(args.patch ?? ""), context.cwd, context.signal)
   },
   gitAdd: {
     name: "gitAdd",
     description: "Stage files",
     execute: async (args, context) =>
-      gitAdd(Array.isArray(args.files) ? args.files.map((item) => String(item)) : ["."], context.cwd)
+      gitAdd(Array.isArray(args.files) ? args.files.map((item) => String(item)) : ["."], context.cwd, context.signal)
   },
   gitCommit: {
     name: "gitCommit",
     description: "Create commit",
-    execute: async (args, context) => gitCommit(String(args.message ?? "update"), context.cwd)
+    execute: async (args, context) => gitCommit(String(args.message ?? "update"), context.cwd, context.signal)
   },
   gitLog: {
     name: "gitLog",
     description: "Read commit log",
-    execute: async (args, context) => gitLog(Number(args.limit ?? 20), context.cwd)
+    execute: async (args, context) => gitLog(Number(args.limit ?? 20), context.cwd, context.signal)
   },
   gitBranchList: {
     name: "gitBranchList",
     description: "List git branches",
-    execute: async (_, context) => gitBranchList(context.cwd)
+    execute: async (_, context) => gitBranchList(context.cwd, context.signal)
   },
   gitCheckout: {
     name: "gitCheckout",
     description: "Checkout branch",
-    execute: async (args, context) => gitCheckout(String(args.branch ?? ""), context.cwd)
+    execute: async (args, context) => gitCheckout(String(args.branch ?? ""), context.cwd, context.signal)
   },
   packageInstall: {
     name: "packageInstall",
@@ -915,7 +977,8 @@ export const DEFAULT_TOOL_REGISTRY: Record<string, ToolDefinition> = {
         (args.manager as "pnpm" | "npm" | "yarn") ?? "pnpm",
         Array.isArray(args.deps) ? args.deps.map((item) => String(item)) : [],
         context.cwd,
-        context.policy
+        context.policy,
+        context.signal
       )
   },
   packageRemove: {
@@ -926,7 +989,8 @@ export const DEFAULT_TOOL_REGISTRY: Record<string, ToolDefinition> = {
         (args.manager as "pnpm" | "npm" | "yarn") ?? "pnpm",
         Array.isArray(args.deps) ? args.deps.map((item) => String(item)) : [],
         context.cwd,
-        context.policy
+        context.policy,
+        context.signal
       )
   },
   packageRunScript: {
@@ -937,54 +1001,62 @@ export const DEFAULT_TOOL_REGISTRY: Record<string, ToolDefinition> = {
         (args.manager as "pnpm" | "npm" | "yarn") ?? "pnpm",
         String(args.script ?? "build"),
         context.cwd,
-        context.policy
+        context.policy,
+        context.signal
       )
   },
   runCommand: {
     name: "runCommand",
     description: "Run shell command with policy gate",
-    execute: async (args, context) => runCommand(String(args.command ?? ""), context.policy, context.cwd)
+    execute: async (args, context) => runCommand(String(args.command ?? ""), context.policy, context.cwd, context.signal)
   },
   fetchUrl: {
     name: "fetchUrl",
     description: "Fetch raw URL body",
-    execute: async (args) => fetchUrl(String(args.url ?? ""))
+    execute: async (args, context) => fetchUrl(String(args.url ?? ""), context.signal)
   },
   downloadFile: {
     name: "downloadFile",
     description: "Download URL to local path",
-    execute: async (args, context) => downloadFile(String(args.url ?? ""), toLocalPath(context.cwd, args.outPath))
+    execute: async (args, context) =>
+      downloadFile(String(args.url ?? ""), toLocalPath(context.cwd, args.outPath), context.signal)
   },
   searchWeb: {
     name: "searchWeb",
     description: "Search web by scraping HTML results",
-    execute: async (args) => searchWeb(String(args.query ?? ""), Number(args.maxResults ?? 5))
+    execute: async (args, context) => searchWeb(String(args.query ?? ""), Number(args.maxResults ?? 5), context.signal)
   },
   browserOpenUrl: {
     name: "browserOpenUrl",
     description: "Open URL in local browser",
-    execute: async (args, context) => browserOpenUrl(String(args.url ?? ""), context.cwd, context.policy)
+    execute: async (args, context) => browserOpenUrl(String(args.url ?? ""), context.cwd, context.policy, context.signal)
   },
   browserScreenshot: {
     name: "browserScreenshot",
     description: "Take screenshot with Playwright CLI",
     execute: async (args, context) =>
-      browserScreenshot(String(args.url ?? ""), toLocalPath(context.cwd, args.outPath ?? "screenshot.png"), context.cwd, context.policy)
+      browserScreenshot(
+        String(args.url ?? ""),
+        toLocalPath(context.cwd, args.outPath ?? "screenshot.png"),
+        context.cwd,
+        context.policy,
+        context.signal
+      )
   },
   deployVercel: {
     name: "deployVercel",
     description: "Deploy to Vercel",
-    execute: async (_, context) => deployVercel(context.cwd, context.policy)
+    execute: async (_, context) => deployVercel(context.cwd, context.policy, context.signal)
   },
   deployNetlify: {
     name: "deployNetlify",
     description: "Deploy to Netlify",
-    execute: async (_, context) => deployNetlify(context.cwd, context.policy)
+    execute: async (_, context) => deployNetlify(context.cwd, context.policy, context.signal)
   },
   deployDocker: {
     name: "deployDocker",
     description: "Build + push Docker image",
-    execute: async (args, context) => deployDocker(String(args.imageTag ?? ""), context.cwd, context.policy)
+    execute: async (args, context) => deployDocker(String(args.imageTag ?? ""), context.cwd, context.policy, context.signal)
   }
 };
 
@@ -998,5 +1070,9 @@ export const executeTool = async (
     throw new Error(`Unknown tool: ${name}`);
   }
 
+  if (context.signal?.aborted) {
+    throw new ToolCancelledError(`Tool cancelled: ${name}`);
+  }
+
   return tool.execute(args, context);
 };